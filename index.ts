@@ -6,39 +6,195 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import {
   ListToolsRequestSchema,
   CallToolRequestSchema,
   ErrorCode,
   McpError,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   Tool,
+  ToolAnnotations,
+  ServerRequest,
+  ServerNotification,
+  isInitializeRequest,
+  ElicitResultSchema,
 } from "@modelcontextprotocol/sdk/types.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import * as ncu from 'npm-check-updates';
 import fs from 'fs';
 import fsExtra from 'fs-extra';
 import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+import * as http from 'http';
+import { spawn } from 'child_process';
+import { pathToFileURL } from 'url';
 import * as cheerio from 'cheerio';
+import { Command, InvalidArgumentError, Option } from 'commander';
+import YAML from 'yaml';
+import semver from 'semver';
+import { createTwoFilesPatch } from 'diff';
 import { z } from 'zod'; // Import Zod [2][4][6]
+import { zodToJsonSchema } from 'zod-to-json-schema';
 
 // Configure process to ensure all output goes to stderr for MCP compliance
 process.env.FORCE_COLOR = '1';
 
-// Create a logger that explicitly logs to stderr only
+// Create a logger that explicitly logs to stderr only. Messages below the
+// configured level (--log-level) are dropped.
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+let logLevel: typeof LOG_LEVELS[number] = 'info';
+const log = (level: typeof LOG_LEVELS[number], args: any[]) => {
+  if (LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(logLevel)) process.stderr.write(`[${level.toUpperCase()}] ${args.join(' ')}\n`);
+};
 const logger = {
-  debug: (...args: any[]) => process.stderr.write(`[DEBUG] ${args.join(' ')}\n`),
-  info: (...args: any[]) => process.stderr.write(`[INFO] ${args.join(' ')}\n`),
-  warn: (...args: any[]) => process.stderr.write(`[WARN] ${args.join(' ')}\n`),
-  error: (...args: any[]) => process.stderr.write(`[ERROR] ${args.join(' ')}\n`)
+  debug: (...args: any[]) => log('debug', args),
+  info: (...args: any[]) => log('info', args),
+  warn: (...args: any[]) => log('warn', args),
+  error: (...args: any[]) => log('error', args)
+};
+
+const parseSeconds = (value: string) => {
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) throw new InvalidArgumentError('Expected a positive number of seconds.');
+  return seconds;
+};
+
+const parseToolTimeouts = (value: string, previous: Record<string, number> = {}) => {
+  const timeouts = { ...previous };
+  for (const entry of value.split(',').map(item => item.trim()).filter(Boolean)) {
+    const [name, seconds] = entry.split('=');
+    if (!name || seconds === undefined) throw new InvalidArgumentError(`Expected name=seconds, got "${entry}".`);
+    timeouts[name.trim()] = parseSeconds(seconds.trim());
+  }
+  return timeouts;
 };
 
+// Repeatable options that also accept comma-separated lists
+const parseList = (value: string, previous: string[] = []) => [...previous, ...value.split(',').map(item => item.trim()).filter(Boolean)];
+
+// Command-line options. Each one can also be set through an environment variable so MCP
+// client configs that only pass `env` can still change them.
+const program = new Command()
+  .name('npm-helper-mcp')
+  .description('A Model Context Protocol server for NPM dependency management')
+  .addOption(new Option('--transport <type>', 'how clients connect').choices(['stdio', 'http']).env('NPM_HELPER_TRANSPORT').default('stdio'))
+  .addOption(new Option('--host <host>', 'interface the HTTP transport listens on').env('NPM_HELPER_HOST').default('127.0.0.1'))
+  .addOption(new Option('--port <port>', 'port the HTTP transport listens on').env('NPM_HELPER_PORT')
+    .default(3000).argParser((value) => parseInt(value, 10)))
+  .addOption(new Option('--auth-token <token>', 'bearer token HTTP clients must send').env('NPM_HELPER_AUTH_TOKEN'))
+  .addOption(new Option('--session-timeout <seconds>', 'close HTTP sessions idle for this long').env('NPM_HELPER_SESSION_TIMEOUT')
+    .default(1800).argParser(parseSeconds))
+  .addOption(new Option('--registry <url>', 'default registry, overriding .npmrc and NPM_CONFIG_REGISTRY').env('NPM_HELPER_REGISTRY'))
+  .addOption(new Option('--tool-timeout <seconds>', 'maximum time a tool call may take').env('NPM_HELPER_TOOL_TIMEOUT')
+    .default(30).argParser(parseSeconds))
+  .addOption(new Option('--tool-timeouts <list>', 'per-tool limits as name=seconds pairs, e.g. run_doctor=3600,check_updates=60').env('NPM_HELPER_TOOL_TIMEOUTS')
+    .argParser(parseToolTimeouts))
+  .addOption(new Option('--fetch-timeout <seconds>', 'timeout for each registry and GitHub request').env('NPM_HELPER_FETCH_TIMEOUT')
+    .default(20).argParser(parseSeconds))
+  .addOption(new Option('--log-level <level>', 'minimum level written to stderr').choices([...LOG_LEVELS]).env('NPM_HELPER_LOG_LEVEL').default('info'))
+  .addOption(new Option('--cache-dir <dir>', 'directory for the package metadata cache').env('NPM_HELPER_CACHE_DIR')
+    .default(path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'npm-helper-mcp')))
+  .addOption(new Option('--cache-ttl <seconds>', 'serve cached metadata without revalidating for this long').env('NPM_HELPER_CACHE_TTL')
+    .default(300).argParser((value) => parseInt(value, 10)))
+  .addOption(new Option('--no-cache', 'disable the on-disk metadata cache'))
+  .addOption(new Option('--offline', 'only serve package metadata from the cache or the mirror directory').env('NPM_HELPER_OFFLINE'))
+  .addOption(new Option('--mirror-dir <dir>', 'directory of packuments (<name>.json or <name>/package.json) used when offline').env('NPM_HELPER_MIRROR_DIR'))
+  .addOption(new Option('--github-api-url <url>', 'GitHub API (or compatible fixture) used for repository releases').env('GITHUB_API_URL')
+    .default('https://api.github.com'))
+  .addOption(new Option('--downloads-api-url <url>', 'npm downloads API used for weekly download counts').env('NPM_HELPER_DOWNLOADS_API_URL')
+    .default('https://api.npmjs.org/downloads'))
+  .addOption(new Option('--plugin <module>', 'module that registers additional tools; repeat or comma-separate for several').env('NPM_HELPER_PLUGINS')
+    .argParser(parseList))
+  .addOption(new Option('--allowed-root <dir>', 'directory tool calls may work in; repeat or comma-separate for several (default: the working directory)').env('NPM_HELPER_ALLOWED_ROOTS')
+    .argParser(parseList))
+  .addOption(new Option('--doctor-command <command>', 'install or test command run_doctor may run without asking; repeat or comma-separate for several').env('NPM_HELPER_DOCTOR_COMMANDS')
+    .argParser(parseList))
+  .addOption(new Option('--snapshot-dir <dir>', 'where backups of package.json and lockfiles are kept (default: <cache-dir>/snapshots)').env('NPM_HELPER_SNAPSHOT_DIR'))
+  .parse(process.argv);
+
+const cliOptions = program.opts<{
+  transport: 'stdio' | 'http';
+  host: string;
+  port: number;
+  authToken?: string;
+  sessionTimeout: number;
+  registry?: string;
+  toolTimeout: number;
+  toolTimeouts?: Record<string, number>;
+  fetchTimeout: number;
+  logLevel: typeof LOG_LEVELS[number];
+  cacheDir: string;
+  cacheTtl: number;
+  cache: boolean;
+  offline?: boolean;
+  mirrorDir?: string;
+  githubApiUrl: string;
+  downloadsApiUrl: string;
+  snapshotDir?: string;
+  plugin?: string[];
+  allowedRoot?: string[];
+  doctorCommand?: string[];
+}>();
+logLevel = cliOptions.logLevel;
+
+// Directories tool calls may read and write in, with symlinks resolved
+const allowedRoots = (cliOptions.allowedRoot?.length ? cliOptions.allowedRoot : [process.cwd()]).map(root => {
+  try {
+    return fs.realpathSync(path.resolve(root));
+  } catch {
+    return program.error(`error: allowed root ${root} does not exist`);
+  }
+});
+
+// The real path of a file, resolving symlinks in the part of it that exists
+function realPath(file: string): string {
+  let existing = path.resolve(file);
+  const missing: string[] = [];
+  while (!fs.existsSync(existing)) {
+    const parent = path.dirname(existing);
+    if (parent === existing) break;
+    missing.unshift(path.basename(existing));
+    existing = parent;
+  }
+  return path.join(fs.realpathSync(existing), ...missing);
+}
+
+function insideAllowedRoots(file: string): boolean {
+  const real = realPath(file);
+  return allowedRoots.some(root => {
+    const relative = path.relative(root, real);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  });
+}
+
+// Reject a path outside every allowed root once ".." segments and symlinks are resolved, so a
+// tool call can't be pointed at another project on the machine
+function sandboxPath(file: string, what: string): string {
+  const real = realPath(file);
+  if (!insideAllowedRoots(real)) {
+    throw new McpError(ErrorCode.InvalidParams,
+      `${what} ${file}${real !== path.resolve(file) ? ` (${real})` : ''} is outside the allowed roots: ${allowedRoots.join(', ')}. Start the server with --allowed-root to allow it`);
+  }
+  return real;
+}
+
 // --- Zod Schemas for Tool Inputs --- [2][6]
 const PackageManagerEnum = z.enum(["npm", "yarn", "pnpm", "deno", "bun", "staticRegistry"]);
+const InstallPackageManagerEnum = z.enum(["npm", "pnpm", "yarn", "bun"]); // the ones that install
+type InstallPackageManager = z.infer<typeof InstallPackageManagerEnum>;
 const NcuTargetEnum = z.enum(["latest", "newest", "greatest", "minor", "patch", "semver"]);
 
 const SearchNpmSchema = z.object({
   query: z.string(),
-  maxResults: z.number().optional().default(10),
+  maxResults: z.number().int().min(1).max(250).optional().default(10), // the registry returns at most 250
+  packagePath: z.string().optional(),
 });
 type SearchNpmArgs = z.infer<typeof SearchNpmSchema>;
 
@@ -49,14 +205,54 @@ type FetchPackageContentArgs = z.infer<typeof FetchPackageContentSchema>;
 
 const GetPackageVersionsSchema = z.object({
   packageName: z.string(),
+  packagePath: z.string().optional(),
 });
 type GetPackageVersionsArgs = z.infer<typeof GetPackageVersionsSchema>;
 
 const GetPackageDetailsSchema = z.object({
   packageName: z.string(),
+  packagePath: z.string().optional(),
 });
 type GetPackageDetailsArgs = z.infer<typeof GetPackageDetailsSchema>;
 
+const GetPackageDocsSchema = z.object({
+  packageName: z.string(), // a name, or name@version
+  version: z.string().optional(), // version, range or dist-tag (default: latest)
+  packagePath: z.string().optional(),
+  toc: z.boolean().optional(), // only list the README's headings
+  section: z.string().optional(), // heading title or anchor slug; includes its subsections
+  offset: z.number().int().min(0).optional().default(0),
+  maxLength: z.number().int().min(500).max(50000).optional().default(10000),
+});
+type GetPackageDocsArgs = z.infer<typeof GetPackageDocsSchema>;
+
+const ResolveVersionSchema = z.object({
+  packageName: z.string(), // a name, or name@range
+  range: z.string().optional(), // semver range or dist-tag (default: latest)
+  packagePath: z.string().optional(), // its engines.node is the Node range versions must support
+  includePrerelease: z.boolean().optional().default(false),
+  respectEngines: z.boolean().optional().default(true),
+  limit: z.number().int().min(1).max(1000).optional().default(30), // versions listed
+});
+type ResolveVersionArgs = z.infer<typeof ResolveVersionSchema>;
+
+const ComparePackagesSchema = z.object({
+  packageNames: z.array(z.string()).min(2).max(20),
+  packagePath: z.string().optional(),
+});
+type ComparePackagesArgs = z.infer<typeof ComparePackagesSchema>;
+
+const AnalyzeInstallSizeSchema = z.object({
+  packageName: z.string(), // a name, or name@range
+  range: z.string().optional(), // version, range or dist-tag (default: latest)
+  compareTo: z.string().optional(), // another version, range or dist-tag of the same package
+  packagePath: z.string().optional(), // project whose installed packages are reused
+  includeOptional: z.boolean().optional().default(true),
+  includePeers: z.boolean().optional().default(true), // npm 7+ installs required peers
+  maxPackages: z.number().int().min(1).max(5000).optional().default(1000),
+});
+type AnalyzeInstallSizeArgs = z.infer<typeof AnalyzeInstallSizeSchema>;
+
 const CheckUpdatesSchema = z.object({
   packagePath: z.string().optional(),
   filter: z.array(z.string()).optional(),
@@ -65,6 +261,9 @@ const CheckUpdatesSchema = z.object({
   peer: z.boolean().optional(),
   minimal: z.boolean().optional(),
   packageManager: PackageManagerEnum.optional(),
+  workspaces: z.boolean().optional(),
+  workspaceMembers: z.array(z.string()).optional(), // names or directories; implies workspaces
+  respectEngines: z.boolean().optional(), // cap targets at the newest version supporting the project's Node
 });
 type CheckUpdatesArgs = z.infer<typeof CheckUpdatesSchema>;
 
@@ -74,6 +273,11 @@ const UpgradePackagesSchema = z.object({
   peer: z.boolean().optional(),
   minimal: z.boolean().optional(),
   packageManager: PackageManagerEnum.optional(),
+  workspaces: z.boolean().optional(),
+  workspaceMembers: z.array(z.string()).optional(),
+  respectEngines: z.boolean().optional(),
+  dryRun: z.boolean().optional(), // return the package.json diff without writing it
+  install: z.boolean().optional(), // run the package manager's install after writing
 });
 type UpgradePackagesArgs = z.infer<typeof UpgradePackagesSchema>;
 
@@ -83,6 +287,8 @@ const FilterUpdatesSchema = z.object({
   upgrade: z.boolean().optional(),
   minimal: z.boolean().optional(),
   packageManager: PackageManagerEnum.optional(),
+  dryRun: z.boolean().optional(),
+  install: z.boolean().optional(), // with upgrade
 });
 type FilterUpdatesArgs = z.infer<typeof FilterUpdatesSchema>;
 
@@ -91,9 +297,19 @@ const ResolveConflictsSchema = z.object({
   upgrade: z.boolean().optional(),
   minimal: z.boolean().optional(),
   packageManager: PackageManagerEnum.optional(),
+  dryRun: z.boolean().optional(),
+  install: z.boolean().optional(), // with upgrade
 });
 type ResolveConflictsArgs = z.infer<typeof ResolveConflictsSchema>;
 
+const SolvePeerDependenciesSchema = z.object({
+  packagePath: z.string().optional(),
+  upgrades: z.record(z.string()).optional(), // proposed name -> range or version, e.g. check_updates' data.upgrades; default: every available update
+  upgrade: z.boolean().optional(), // write the solved ranges into package.json
+  dryRun: z.boolean().optional(),
+});
+type SolvePeerDependenciesArgs = z.infer<typeof SolvePeerDependenciesSchema>;
+
 const SetVersionConstraintsSchema = z.object({
   packagePath: z.string().optional(),
   target: NcuTargetEnum,
@@ -101,6 +317,8 @@ const SetVersionConstraintsSchema = z.object({
   upgrade: z.boolean().optional(),
   minimal: z.boolean().optional(),
   packageManager: PackageManagerEnum.optional(),
+  dryRun: z.boolean().optional(),
+  install: z.boolean().optional(), // with upgrade
 });
 type SetVersionConstraintsArgs = z.infer<typeof SetVersionConstraintsSchema>;
 
@@ -109,9 +327,578 @@ const RunDoctorSchema = z.object({
   doctorInstall: z.string().optional(),
   doctorTest: z.string().optional(),
   packageManager: PackageManagerEnum.optional(),
+  dryRun: z.boolean().optional(),
 });
 type RunDoctorArgs = z.infer<typeof RunDoctorSchema>;
 
+const InstallDependenciesSchema = z.object({
+  packagePath: z.string().optional(),
+  packageManager: InstallPackageManagerEnum.optional(), // default: from the packageManager field or the lockfile
+  frozenLockfile: z.boolean().optional(), // install exactly what the lockfile says, failing if package.json disagrees
+  ignoreScripts: z.boolean().optional(),
+  dryRun: z.boolean().optional(), // only report the package manager and the command
+});
+type InstallDependenciesArgs = z.infer<typeof InstallDependenciesSchema>;
+
+const InspectLockfileSchema = z.object({
+  packagePath: z.string().optional(),
+  includeDev: z.boolean().optional(),
+});
+type InspectLockfileArgs = z.infer<typeof InspectLockfileSchema>;
+
+const AdvisorySeverityEnum = z.enum(["info", "low", "moderate", "high", "critical"]);
+
+const AuditDependenciesSchema = z.object({
+  packagePath: z.string().optional(),
+  source: z.enum(["auto", "lockfile", "node_modules"]).optional().default("auto"),
+  includeDev: z.boolean().optional(),
+  minSeverity: AdvisorySeverityEnum.optional(),
+  fix: z.boolean().optional(), // write the range bumps for direct dependencies into package.json
+  dryRun: z.boolean().optional(), // with fix, return the diff instead of writing it
+});
+type AuditDependenciesArgs = z.infer<typeof AuditDependenciesSchema>;
+
+const ExplainDependencySchema = z.object({
+  packageName: z.string(), // a name, or name@range
+  range: z.string().optional(), // only installed copies whose version satisfies it
+  packagePath: z.string().optional(),
+  source: z.enum(["auto", "lockfile", "node_modules"]).optional().default("auto"),
+  workspaces: z.boolean().optional(), // start from every workspace member instead of packagePath's package only
+  includeDev: z.boolean().optional(),
+  maxPaths: z.number().int().min(1).max(1000).optional().default(50),
+});
+type ExplainDependencyArgs = z.infer<typeof ExplainDependencySchema>;
+
+const CheckLicensesSchema = z.object({
+  packagePath: z.string().optional(),
+  source: z.enum(["auto", "lockfile", "node_modules"]).optional().default("auto"),
+  includeDev: z.boolean().optional(),
+  allow: z.array(z.string()).optional(), // SPDX ids or globs such as "BSD-*"; replaces the config file's list
+  deny: z.array(z.string()).optional(),
+  lookupMissing: z.boolean().optional().default(true), // ask the registry for licenses the lockfile and node_modules lack
+  reportFormat: z.enum(["markdown", "csv"]).optional().default("markdown"),
+});
+type CheckLicensesArgs = z.infer<typeof CheckLicensesSchema>;
+
+const FindStaleDependenciesSchema = z.object({
+  packagePath: z.string().optional(),
+  source: z.enum(["auto", "lockfile", "node_modules"]).optional().default("auto"),
+  includeTransitive: z.boolean().optional().default(true), // every locked package, not just the direct ones
+  includeDev: z.boolean().optional(),
+  monthsWithoutPublish: z.number().int().min(1).optional().default(24),
+  checkRepositories: z.enum(["direct", "all", "none"]).optional().default("direct"), // GitHub lookups, which are rate limited
+});
+type FindStaleDependenciesArgs = z.infer<typeof FindStaleDependenciesSchema>;
+
+const CheckEnginesSchema = z.object({
+  packagePath: z.string().optional(),
+  source: z.enum(["auto", "lockfile", "node_modules"]).optional().default("auto"),
+  includeDev: z.boolean().optional().default(true),
+});
+type CheckEnginesArgs = z.infer<typeof CheckEnginesSchema>;
+
+const GetChangelogSchema = z.object({
+  packageName: z.string(),
+  fromVersion: z.string(), // version, range or dist-tag
+  toVersion: z.string().optional(), // defaults to the "latest" dist-tag
+  source: z.enum(["auto", "tarball", "releases"]).optional().default("auto"),
+  packagePath: z.string().optional(),
+  maxLength: z.number().int().positive().optional().default(20000),
+});
+type GetChangelogArgs = z.infer<typeof GetChangelogSchema>;
+
+const ListChangesSchema = z.object({
+  packagePath: z.string().optional(), // only changes to this project
+  limit: z.number().int().positive().optional().default(20),
+});
+type ListChangesArgs = z.infer<typeof ListChangesSchema>;
+
+const UndoLastChangeSchema = z.object({
+  changeId: z.string().optional(), // defaults to the most recent change that has not been undone
+  packagePath: z.string().optional(),
+});
+type UndoLastChangeArgs = z.infer<typeof UndoLastChangeSchema>;
+
+// --- Zod Schemas for Tool Outputs ---
+// Returned as structuredContent and advertised as each tool's outputSchema. Nested objects whose
+// fields depend on the registry or lockfile format are passthrough.
+const UpgradeMapSchema = z.record(z.string()); // dependency name -> new range
+
+const WriteInfoSchema = {
+  diff: z.string().optional(), // unified diff of the files written, or that would be written with dryRun
+  changeId: z.string().optional(), // snapshot to pass to undo_last_change
+};
+
+const CacheInfoSchema = z.object({
+  cached: z.boolean(),
+  source: z.enum(['network', 'cache', 'revalidated', 'stale', 'mirror']),
+  ageMs: z.number(),
+  age: z.string().optional(),
+});
+
+const SearchNpmOutputSchema = z.object({
+  packages: z.array(z.object({
+    name: z.string(),
+    version: z.string(),
+    description: z.string().optional(),
+    author: z.string().optional(),
+    homepage: z.string().optional(),
+    repository: z.string().optional(),
+    keywords: z.array(z.string()),
+    lastPublish: z.string().optional(),
+    weeklyDownloads: z.number().optional(),
+  })),
+  totalResults: z.number(),
+});
+
+const FetchPackageContentOutputSchema = z.object({
+  url: z.string(),
+  content: z.string(),
+});
+
+const GetPackageVersionsOutputSchema = z.object({
+  packageName: z.string(),
+  versions: z.array(z.string()),
+  distTags: z.record(z.string()),
+  cache: CacheInfoSchema,
+});
+
+const GetPackageDetailsOutputSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  'dist-tags': z.record(z.string()),
+  maintainers: z.array(z.any()).optional(),
+  homepage: z.string().optional(),
+  repository: z.any().optional(),
+  license: z.any().optional(),
+  versions: z.record(z.object({ name: z.string(), version: z.string() }).passthrough()),
+  time: z.record(z.string()).optional(),
+  cache: CacheInfoSchema,
+});
+
+const NodeRangeSourceEnum = z.enum(['engines', 'nvmrc', 'node-version', 'runtime']);
+const ProjectNodeRangeSchema = z.object({
+  range: z.string(),
+  source: NodeRangeSourceEnum,
+  file: z.string().nullable(), // package.json, .nvmrc or .node-version; null for the running Node
+});
+
+const ResolvedVersionSchema = z.object({
+  version: z.string(),
+  published: z.string().nullable(),
+  prerelease: z.boolean(),
+  deprecated: z.string().nullable(),
+  engines: z.string().nullable(), // engines.node
+  compatible: z.boolean().nullable(), // with the project's Node range; null when not checked or unparseable
+  tags: z.array(z.string()),
+});
+
+const ResolveVersionOutputSchema = z.object({
+  packageName: z.string(),
+  requested: z.string(),
+  resolved: z.string().nullable(),
+  reason: z.string(),
+  published: z.string().nullable(),
+  deprecated: z.string().nullable(),
+  passedOver: z.array(z.object({ version: z.string(), reason: z.string() })), // higher matches npm would skip
+  node: ProjectNodeRangeSchema.nullable(),
+  distTags: z.array(z.object({ tag: z.string(), version: z.string(), published: z.string().nullable() })),
+  versions: z.array(ResolvedVersionSchema), // newest first, up to limit
+  totalVersions: z.number(),
+});
+
+const GetPackageDocsOutputSchema = z.object({
+  packageName: z.string(),
+  version: z.string(),
+  source: z.enum(['packument', 'tarball', 'html']),
+  file: z.string().nullable(),
+  format: z.enum(['markdown', 'text']),
+  toc: z.array(z.object({ level: z.number(), title: z.string(), slug: z.string() })),
+  section: z.string().nullable(),
+  content: z.string(),
+  offset: z.number(),
+  totalLength: z.number(), // of the README, or of the section
+  nextOffset: z.number().nullable(), // pass as offset to read on
+});
+
+const ComparePackagesOutputSchema = z.object({
+  packages: z.array(z.object({
+    name: z.string(),
+    description: z.string().nullable(),
+    latestVersion: z.string(),
+    latestPublished: z.string().nullable(),
+    lastPublish: z.string().nullable(), // newest release of any version line
+    firstPublished: z.string().nullable(),
+    weeklyDownloads: z.number().nullable(),
+    releasesLastYear: z.number(),
+    medianReleaseIntervalDays: z.number().nullable(), // over the last 10 stable releases
+    versionCount: z.number(),
+    maintainers: z.number().nullable(),
+    dependencies: z.number(),
+    unpackedSize: z.number().nullable(), // bytes
+    fileCount: z.number().nullable(),
+    license: z.string().nullable(),
+    types: z.enum(['bundled', 'definitelyTyped', 'none']),
+    typesPackage: z.string().nullable(),
+    deprecated: z.string().nullable(),
+    homepage: z.string().nullable(),
+    repository: z.string().nullable(),
+  })),
+  highlights: z.record(z.string().nullable()), // e.g. mostDownloaded -> package name
+  notFound: z.array(z.object({ name: z.string(), error: z.string() })),
+});
+
+const InstallSizeTotalsSchema = {
+  packages: z.number(),
+  unpackedSize: z.number(), // bytes
+  fileCount: z.number(),
+};
+
+const InstallSizeAnalysisSchema = z.object({
+  packageName: z.string(),
+  range: z.string(),
+  version: z.string(),
+  ...InstallSizeTotalsSchema,
+  added: z.object(InstallSizeTotalsSchema), // packages the project does not have yet
+  alreadyInstalled: z.number(),
+  subtrees: z.array(z.object({ name: z.string(), version: z.string(), ...InstallSizeTotalsSchema, exclusiveUnpackedSize: z.number() })),
+  largest: z.array(z.object({ name: z.string(), version: z.string(), unpackedSize: z.number(), fileCount: z.number().nullable(), existing: z.boolean() })),
+  unknownSize: z.array(z.string()), // name@version of packages that publish no dist.unpackedSize
+  unresolved: z.array(z.string()),
+  truncated: z.boolean(),
+});
+
+const AnalyzeInstallSizeOutputSchema = InstallSizeAnalysisSchema.extend({
+  lockfile: z.string().nullable(),
+  compareTo: InstallSizeAnalysisSchema.nullable(),
+  difference: z.object({
+    packages: z.number(),
+    unpackedSize: z.number(),
+    fileCount: z.number(),
+    addedUnpackedSize: z.number(),
+    newPackages: z.array(z.string()),
+    droppedPackages: z.array(z.string()),
+  }).nullable(),
+});
+
+const UpdateDetailSchema = z.object({
+  name: z.string(),
+  current: z.string(),
+  currentVersion: z.string().nullable(),
+  target: z.string(),
+  targetVersion: z.string().nullable(),
+  bump: z.enum(['major', 'minor', 'patch', 'prerelease', 'none', 'unknown']),
+  publishedAt: z.string().nullable(),
+  ageDays: z.number().nullable(),
+  deprecated: z.string().nullable(),
+  engines: z.object({
+    node: z.string().nullable(),
+    project: z.string(),
+    projectSource: NodeRangeSourceEnum,
+    compatible: z.boolean().nullable(),
+  }),
+  risk: z.enum(['low', 'medium', 'high', 'unknown']),
+  riskReasons: z.array(z.string()),
+});
+// An upgrade lowered by respectEngines; cappedTo is null when no newer version supports the project's Node
+const EnginesCapSchema = z.object({
+  name: z.string(),
+  member: z.string().optional(), // workspace package
+  target: z.string(),
+  targetVersion: z.string(),
+  requires: z.string(), // the target's engines.node
+  project: z.string(),
+  cappedTo: z.string().nullable(),
+});
+type EnginesCap = z.infer<typeof EnginesCapSchema>;
+// An upgrade the project policy held back, and the rule that did it
+const PolicyDecisionSchema = z.object({
+  name: z.string(),
+  member: z.string().optional(),
+  file: z.string(), // the policy file
+  rule: z.string(), // e.g. rules["react"] or minReleaseAgeDays
+  action: z.enum(['ignored', 'frozen', 'capped', 'blocked']),
+  target: z.string(),
+  cappedTo: z.string().nullable(),
+  reason: z.string(),
+});
+type PolicyDecision = z.infer<typeof PolicyDecisionSchema>;
+
+// Present when a policy file has an `updates` section, or with respectEngines
+const UpgradeLimitsSchema = {
+  policyDecisions: z.array(PolicyDecisionSchema).optional(),
+  enginesCapped: z.array(EnginesCapSchema).optional(),
+};
+type UpgradeLimits = { policyDecisions?: PolicyDecision[]; enginesCapped?: EnginesCap[] };
+
+// Packages whose locked versions an install changed, as name@version
+const LockfileChangesSchema = z.object({
+  file: z.string(),
+  created: z.boolean(),
+  added: z.array(z.string()),
+  removed: z.array(z.string()),
+  updated: z.array(z.object({ name: z.string(), from: z.array(z.string()), to: z.array(z.string()) })),
+});
+
+const InstallResultSchema = z.object({
+  packageManager: InstallPackageManagerEnum,
+  detectedFrom: z.enum(['argument', 'packageManager', 'lockfile', 'default']),
+  version: z.string().nullable(), // from the packageManager field
+  command: z.string(),
+  directory: z.string(), // where the install runs: the workspace root for members
+  lockfileChanges: LockfileChangesSchema.nullable().optional(), // null when the lockfile can't be read (bun)
+  output: z.string().optional(), // tail of the command's output
+  changeId: z.string().optional(), // snapshot of the lockfile, when the install changed it
+});
+type InstallResult = z.infer<typeof InstallResultSchema>;
+
+const RiskGroupsSchema = z.record(z.array(z.string())); // risk level -> dependency names
+
+// Single projects fill upgrades/updates/groups; workspaces mode fills packages/combined/versionMismatches
+const CheckUpdatesOutputSchema = z.object({
+  upgrades: UpgradeMapSchema.optional(),
+  updates: z.array(UpdateDetailSchema).optional(),
+  groups: RiskGroupsSchema.optional(),
+  packages: z.record(z.object({
+    path: z.string(),
+    updates: UpgradeMapSchema,
+    details: z.array(UpdateDetailSchema),
+    groups: RiskGroupsSchema,
+  })).optional(),
+  combined: z.record(z.record(z.object({ current: z.string().optional(), target: z.string() }))).optional(),
+  versionMismatches: z.record(z.record(z.string())).optional(),
+  ...UpgradeLimitsSchema,
+});
+
+const UpgradePackagesOutputSchema = z.object({
+  upgrades: UpgradeMapSchema.optional(),
+  packages: z.record(z.object({ path: z.string(), updates: UpgradeMapSchema })).optional(),
+  ...UpgradeLimitsSchema,
+  ...WriteInfoSchema,
+  install: InstallResultSchema.optional(),
+});
+
+// filter_updates, resolve_conflicts and set_version_constraints
+const UpgradeResultOutputSchema = z.object({
+  upgrades: UpgradeMapSchema,
+  policyDecisions: UpgradeLimitsSchema.policyDecisions,
+  ...WriteInfoSchema,
+  install: InstallResultSchema.optional(),
+});
+
+const PeerConflictSchema = z.object({
+  package: z.string(),
+  version: z.string(),
+  peer: z.string(),
+  requires: z.string(),
+  peerVersion: z.string().nullable(), // null when the peer is not a dependency of the project
+  message: z.string(),
+});
+
+const SolvePeerDependenciesOutputSchema = z.object({
+  solved: z.boolean(),
+  packages: z.array(z.object({
+    name: z.string(),
+    current: z.string().nullable(),
+    currentVersion: z.string().nullable(),
+    proposed: z.string(),
+    proposedVersion: z.string().nullable(),
+    solvedVersion: z.string().nullable(),
+    status: z.enum(['upgraded', 'partial', 'heldBack', 'unresolved']),
+    reasons: z.array(z.string()),
+  })),
+  upgrades: UpgradeMapSchema, // ranges that apply the solution
+  conflicts: z.array(PeerConflictSchema), // peer ranges the proposed set as a whole breaks
+  existingConflicts: z.array(PeerConflictSchema), // already broken with the current versions
+  missingPeers: z.array(PeerConflictSchema),
+  ...WriteInfoSchema,
+});
+
+const RunDoctorOutputSchema = z.object({
+  upgrades: z.record(z.union([z.literal(true), z.string()])), // true if the upgrade passed install and tests, else the failure output
+  policyDecisions: UpgradeLimitsSchema.policyDecisions,
+  ...WriteInfoSchema,
+});
+
+const InspectLockfileOutputSchema = z.object({
+  lockfile: z.object({ type: z.string(), path: z.string(), lockfileVersion: z.string(), importer: z.string() }),
+  direct: z.array(z.object({
+    name: z.string(),
+    type: z.string(),
+    declared: z.string(),
+    locked: z.string().nullable(),
+    status: z.enum(['ok', 'outOfRange', 'missing', 'unchecked']),
+  })),
+  duplicates: z.array(z.object({ name: z.string(), dedupable: z.boolean().optional() }).passthrough()), // no verdict when a requesting range is unknown
+  counts: z.object({ total: z.number(), direct: z.number(), transitive: z.number() }),
+  recommendations: z.object({ reinstall: z.boolean(), dedupe: z.boolean(), reasons: z.array(z.string()) }),
+});
+
+const AuditDependenciesOutputSchema = z.object({
+  source: z.enum(['lockfile', 'node_modules']),
+  path: z.string(),
+  summary: z.object({
+    advisories: z.number(),
+    vulnerablePackages: z.number(),
+    packagesScanned: z.number(),
+    bySeverity: z.record(z.number()),
+  }),
+  advisories: z.array(z.object({
+    name: z.string(),
+    severity: AdvisorySeverityEnum,
+    vulnerableVersions: z.string(),
+    installedVersions: z.array(z.string()),
+    direct: z.boolean(),
+  }).passthrough()),
+  fixes: UpgradeMapSchema,
+  applied: UpgradeMapSchema.optional(),
+  ...WriteInfoSchema,
+});
+
+const DependencyHopSchema = z.object({
+  name: z.string(),
+  range: z.string().nullable(), // the constraint the parent declares for this hop
+  version: z.string(),
+  id: z.string(),
+});
+
+const ExplainDependencyOutputSchema = z.object({
+  packageName: z.string(),
+  range: z.string().nullable(),
+  source: z.enum(['lockfile', 'node_modules']),
+  path: z.string(),
+  installed: z.array(z.object({ id: z.string(), version: z.string() })),
+  paths: z.array(z.object({ importer: z.string(), dependencyType: z.string(), hops: z.array(DependencyHopSchema) })),
+  truncated: z.boolean(),
+  directDependencies: z.array(z.object({
+    importer: z.string(),
+    name: z.string(),
+    type: z.string(),
+    range: z.string().nullable(),
+    version: z.string(),
+    latestVersion: z.string().nullable(),
+    effect: z.enum(['removes', 'changes', 'keeps', 'current', 'unknown']),
+    resolvesTo: z.array(z.string()), // versions of the package reached after upgrading to latestVersion
+    detail: z.string(),
+  })),
+});
+
+const LicenseStatusEnum = z.enum(['allowed', 'denied', 'unlisted', 'unknown', 'missing']);
+
+const CheckLicensesOutputSchema = z.object({
+  source: z.enum(['lockfile', 'node_modules']),
+  path: z.string(),
+  policy: z.object({ file: z.string().nullable(), allow: z.array(z.string()), deny: z.array(z.string()) }),
+  compliant: z.boolean(),
+  summary: z.record(z.number()), // status -> package count
+  licenses: z.record(z.number()), // normalized expression -> package count
+  packages: z.array(z.object({
+    name: z.string(),
+    version: z.string(),
+    license: z.string().nullable(), // as published
+    expression: z.string().nullable(), // normalized SPDX expression
+    status: LicenseStatusEnum,
+    licenseSource: z.enum(['lockfile', 'node_modules', 'registry', 'override']).nullable(),
+    dev: z.boolean(),
+    detail: z.string().optional(),
+  })),
+  flagged: z.array(z.string()), // name@version of every package that is not allowed
+  reportFormat: z.enum(['markdown', 'csv']),
+  report: z.string(),
+});
+
+const FindStaleDependenciesOutputSchema = z.object({
+  source: z.enum(['lockfile', 'node_modules', 'package.json']),
+  path: z.string(),
+  checked: z.number(),
+  monthsWithoutPublish: z.number(),
+  summary: z.object({ deprecated: z.number(), stale: z.number(), repository: z.number() }),
+  packages: z.array(z.object({
+    name: z.string(),
+    direct: z.boolean(),
+    installedVersions: z.array(z.string()),
+    latestVersion: z.string().nullable(),
+    deprecated: z.array(z.object({ version: z.string(), message: z.string() })),
+    packageDeprecated: z.boolean(), // the latest version is deprecated too
+    replacement: z.string().nullable(), // package named in the deprecation message
+    upgradeTo: z.string().nullable(), // newest version that is not deprecated
+    lastPublish: z.string().nullable(),
+    monthsSincePublish: z.number().nullable(),
+    stale: z.boolean(),
+    repository: z.string().nullable(),
+    repositoryStatus: z.enum(['ok', 'archived', 'missing', 'none', 'unchecked']),
+    reasons: z.array(z.string()),
+  })),
+  errors: z.array(z.object({ name: z.string(), error: z.string() })),
+});
+
+const EnginesVersionSchema = z.object({
+  version: z.string(),
+  engines: z.string().nullable(), // engines.node
+  compatible: z.boolean().nullable(), // null when engines.node is not a valid range
+});
+
+const EnginesDependencySchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  range: z.string(),
+  installed: EnginesVersionSchema.nullable(),
+  wanted: EnginesVersionSchema.nullable(), // what the range resolves to today
+  latest: EnginesVersionSchema.nullable(),
+  status: z.enum(['ok', 'conflict', 'capped', 'unknown']), // capped: only the latest version needs a newer Node
+  conflicts: z.array(z.string()),
+  newestCompatible: z.string().nullable(),
+  newestCompatibleInRange: z.string().nullable(),
+});
+type EnginesDependency = z.infer<typeof EnginesDependencySchema>;
+
+const CheckEnginesOutputSchema = z.object({
+  node: ProjectNodeRangeSchema,
+  installedFrom: z.string().nullable(), // lockfile or node_modules the installed versions came from
+  summary: z.object({ conflict: z.number(), capped: z.number(), unknown: z.number(), ok: z.number() }),
+  dependencies: z.array(EnginesDependencySchema),
+  errors: z.array(z.object({ name: z.string(), error: z.string() })),
+});
+
+const GetChangelogOutputSchema = z.object({
+  packageName: z.string(),
+  fromVersion: z.string(),
+  toVersion: z.string(),
+  source: z.enum(['tarball', 'releases']).nullable(),
+  file: z.string().nullable(),
+  breakingVersions: z.array(z.string()),
+  truncated: z.boolean(),
+  entries: z.array(z.object({
+    version: z.string(),
+    title: z.string(),
+    date: z.string().optional(),
+    body: z.string(),
+    breaking: z.array(z.string()),
+    major: z.boolean(),
+  })),
+});
+
+const ChangeRecordSchema = z.object({
+  id: z.string(),
+  tool: z.string(),
+  description: z.string(),
+  projectDir: z.string(),
+  createdAt: z.string(),
+  files: z.array(z.object({ path: z.string(), existed: z.boolean() })),
+  restoredAt: z.string().optional(),
+});
+
+const ListChangesOutputSchema = z.object({
+  snapshotDir: z.string(),
+  changes: z.array(ChangeRecordSchema.extend({ session: z.boolean() })),
+});
+
+const UndoLastChangeOutputSchema = z.object({
+  restored: ChangeRecordSchema,
+  backupId: z.string(),
+  diff: z.string(),
+});
+
 // Interfaces (NpcPackageInfo, NpmSearchResult, etc.) remain the same
 // These are primarily for the structure of data returned by NpmSearcher.
 interface NpmPackageInfo {
@@ -123,7 +910,7 @@ interface NpmPackageInfo {
   repository?: string;
   keywords: string[];
   lastPublish?: string;
-  weeklyDownloads?: string;
+  weeklyDownloads?: number;
 }
 
 interface NpmSearchResult {
@@ -161,141 +948,592 @@ class RateLimiter { /* ... (same as before) ... */
   }
 }
 
-class NpmSearcher {
-  private static readonly REGISTRY_URL = "https://registry.npmjs.org";
-  private static readonly WEBSITE_URL = "https://www.npmjs.com";
-  private static readonly HEADERS = {
-    "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36"
-  };
-  private rateLimiter: RateLimiter;
+// Per-registry credentials, keyed by the "nerf dart" form npm uses (//host/path/)
+interface RegistryAuth {
+  token?: string;
+  basicAuth?: string;
+  username?: string;
+  password?: string;
+}
 
-  constructor() {
-    this.rateLimiter = new RateLimiter(2);
+// Registry settings resolved from the user's and the project's .npmrc files
+class RegistryConfig {
+  static readonly DEFAULT_REGISTRY = "https://registry.npmjs.org/";
+
+  private defaultRegistry: string = RegistryConfig.DEFAULT_REGISTRY;
+  private scopedRegistries: Record<string, string> = {};
+  private auth: Record<string, RegistryAuth> = {};
+  // Credentials written without a registry prefix apply to the default registry only
+  private legacyAuth: RegistryAuth = {};
+
+  // Load config with npm's precedence: user .npmrc, then project .npmrc, then environment,
+  // then the server's --registry option
+  static load(projectDir: string): RegistryConfig {
+    const config = new RegistryConfig();
+    const userConfig = process.env.NPM_CONFIG_USERCONFIG || process.env.npm_config_userconfig || path.join(os.homedir(), '.npmrc');
+    config.readFile(userConfig);
+    const projectConfig = path.join(projectDir, '.npmrc');
+    if (path.resolve(projectConfig) !== path.resolve(userConfig)) config.readFile(projectConfig);
+    const envRegistry = process.env.NPM_CONFIG_REGISTRY || process.env.npm_config_registry;
+    if (envRegistry) config.defaultRegistry = RegistryConfig.withTrailingSlash(envRegistry);
+    if (cliOptions.registry) config.defaultRegistry = RegistryConfig.withTrailingSlash(cliOptions.registry);
+    return config;
   }
 
-  // Helper method to log memory usage
-  private logMemoryUsage(operation: string) {
-    if (process.memoryUsage) {
-      const memUsage = process.memoryUsage();
-      logger.debug(`Memory usage ${operation}: RSS=${Math.round(memUsage.rss / 1024 / 1024)}MB, Heap=${Math.round(memUsage.heapUsed / 1024 / 1024)}MB`);
-      
-      // Force garbage collection if available and memory usage is high
-      if (memUsage.heapUsed > 200 * 1024 * 1024 && global.gc) {
-        logger.info("Memory usage high, forcing garbage collection");
-        try {
-          global.gc();
-        } catch (e) {
-          logger.error("Failed to force garbage collection", e);
-        }
+  // Directory whose .npmrc applies to a package.json path (defaults to the working directory). A
+  // project directory stands for the package.json in it.
+  static projectDirFor(packagePath?: string): string {
+    const resolved = path.resolve(process.cwd(), packagePath || 'package.json');
+    return fs.existsSync(resolved) && fs.statSync(resolved).isDirectory() ? resolved : path.dirname(resolved);
+  }
+
+  // Registry to use for a package, honouring @scope:registry mappings
+  registryFor(packageName?: string): string {
+    if (packageName?.startsWith('@')) {
+      const scope = packageName.split('/')[0];
+      if (this.scopedRegistries[scope]) return this.scopedRegistries[scope];
+    }
+    return this.defaultRegistry;
+  }
+
+  get registry(): string {
+    return this.defaultRegistry;
+  }
+
+  // Authorization header for a request URL, matched by the longest configured registry prefix
+  headersFor(url: string): Record<string, string> {
+    const auth = this.authFor(url);
+    if (auth.token) return { Authorization: `Bearer ${auth.token}` };
+    if (auth.basicAuth) return { Authorization: `Basic ${auth.basicAuth}` };
+    return {};
+  }
+
+  private authFor(url: string): RegistryAuth {
+    const target = RegistryConfig.nerfDart(url);
+    let match: RegistryAuth | undefined;
+    let matchLength = -1;
+    for (const [key, auth] of Object.entries(this.auth)) {
+      if (target.startsWith(key) && key.length > matchLength) {
+        match = auth;
+        matchLength = key.length;
       }
     }
+    if (match) return match;
+    return target.startsWith(RegistryConfig.nerfDart(this.defaultRegistry)) ? this.legacyAuth : {};
   }
 
-  // Add timeout to any fetch request
-  private async fetchWithTimeout(url: string, options: RequestInit = {}, timeoutMs: number = 10000): Promise<Response> {
-    const controller = new AbortController();
-    const id = setTimeout(() => controller.abort(), timeoutMs);
-    
+  private readFile(file: string): void {
+    let text: string;
     try {
-      const response = await fetch(url, {
-        ...options,
-        signal: controller.signal
-      });
-      clearTimeout(id);
-      return response;
-    } catch (error) {
-      clearTimeout(id);
-      throw error;
+      text = fs.readFileSync(file, 'utf8');
+    } catch {
+      return;
+    }
+    logger.debug(`Loading registry config from ${file}`);
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#') || line.startsWith(';')) continue;
+      const eq = line.indexOf('=');
+      if (eq === -1) continue;
+      const key = line.slice(0, eq).trim();
+      const value = RegistryConfig.expandEnv(RegistryConfig.unquote(line.slice(eq + 1).trim()));
+      this.applySetting(key, value);
     }
   }
 
-  async searchPackages(args: SearchNpmArgs): Promise<NpmSearchResult> {
-    const { query, maxResults } = args;
-    try {
-      this.logMemoryUsage("before search");
-      await this.rateLimiter.acquire();
-      const searchUrl = `${NpmSearcher.REGISTRY_URL}/-/v1/search?text=${encodeURIComponent(query)}&size=${maxResults}`;
-      const response = await this.fetchWithTimeout(searchUrl, { headers: NpmSearcher.HEADERS }, 15000);
-      if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
-      
-      const data = await response.json();
-      const packages: NpmPackageInfo[] = data.objects.map((obj: any) => ({
-        name: obj.package.name,
-        version: obj.package.version,
-        description: obj.package.description,
-        author: obj.package.author?.name,
-        homepage: obj.package.links?.homepage,
-        repository: obj.package.links?.repository,
-        keywords: obj.package.keywords || [],
-        weeklyDownloads: obj.score?.detail?.maintenance?.toString(),
-        lastPublish: new Date(obj.package.date).toLocaleDateString()
-      }));
-      
-      this.logMemoryUsage("after search");
-      return { packages, totalResults: data.total };
-    } catch (error) {
-      throw new Error(`Error searching npm packages: ${error instanceof Error ? error.message : String(error)}`);
+  private applySetting(key: string, value: string): void {
+    if (key === 'registry') {
+      this.defaultRegistry = RegistryConfig.withTrailingSlash(value);
+      return;
+    }
+    const scopeMatch = key.match(/^(@[^:]+):registry$/);
+    if (scopeMatch) {
+      this.scopedRegistries[scopeMatch[1]] = RegistryConfig.withTrailingSlash(value);
+      return;
+    }
+    // "//host/path/:_authToken" style keys scope credentials to one registry
+    const prefixed = key.match(/^(\/\/.*):(_authToken|_auth|username|_password)$/);
+    const [target, field] = prefixed
+      ? [this.auth[RegistryConfig.withTrailingSlash(prefixed[1])] ??= {}, prefixed[2]]
+      : [this.legacyAuth, key];
+    switch (field) {
+      case '_authToken':
+        target.token = value;
+        break;
+      case '_auth':
+        target.basicAuth = value;
+        break;
+      case 'username':
+        target.username = value;
+        break;
+      case '_password':
+        target.password = Buffer.from(value, 'base64').toString('utf8');
+        break;
+      default:
+        return;
+    }
+    if (!target.basicAuth && target.username && target.password) {
+      target.basicAuth = Buffer.from(`${target.username}:${target.password}`).toString('base64');
     }
   }
 
-  async fetchPackageContent(args: FetchPackageContentArgs): Promise<string> {
-    const { url } = args;
+  // "https://host:4873/path/" -> "//host:4873/path/"
+  private static nerfDart(url: string): string {
     try {
-      this.logMemoryUsage("before fetch content");
-      await this.rateLimiter.acquire();
-      logger.info(`Fetching content from: ${url}`);
-      const response = await this.fetchWithTimeout(url, { headers: NpmSearcher.HEADERS, redirect: 'follow' }, 20000);
-      if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
-      
-      const html = await response.text();
-      const $ = cheerio.load(html);
-      $('script, style, nav, header, footer').remove();
-      let content = "";
-      const packageName = $('#top h1').text().trim();
-      const packageVersion = $('[data-testid="version-badge"]').text().trim();
-      const description = $('#package-description').text().trim();
-      let readme = $('#readme').text().trim();
-      if (packageName) content += `Package: ${packageName}\n`;
-      if (packageVersion) content += `Version: ${packageVersion}\n`;
-      if (description) content += `Description: ${description}\n\n`;
-      if (readme) {
-        content += `README:\n${readme.length > 4000 ? readme.substring(0, 4000) + '...\n[README content truncated]' : readme}`;
-      }
-      
-      this.logMemoryUsage("after fetch content");
-      return content || "No extractable content found.";
-    } catch (error) {
-      throw new Error(`Error fetching package content: ${error instanceof Error ? error.message : String(error)}`);
+      const parsed = new URL(url);
+      return `//${parsed.host}${parsed.pathname.endsWith('/') ? parsed.pathname : parsed.pathname + '/'}`;
+    } catch {
+      return url;
     }
   }
 
-  async getPackageVersions(args: GetPackageVersionsArgs): Promise<string[]> {
-    const { packageName } = args;
+  private static withTrailingSlash(url: string): string {
+    return url.endsWith('/') ? url : `${url}/`;
+  }
+
+  private static unquote(value: string): string {
+    return /^(["']).*\1$/.test(value) ? value.slice(1, -1) : value;
+  }
+
+  // npm expands ${VAR} references in .npmrc values
+  private static expandEnv(value: string): string {
+    return value.replace(/\$\{([^}]+)\}/g, (_, name: string) => process.env[name] ?? '');
+  }
+}
+
+// How a packument was obtained, reported back to the caller
+interface CacheInfo {
+  cached: boolean;
+  source: 'network' | 'cache' | 'revalidated' | 'stale' | 'mirror';
+  ageMs: number;
+}
+
+interface PackumentCacheEntry {
+  registry: string;
+  packageName: string;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: number;
+  packument: any;
+}
+
+// On-disk packument cache shared by every tool, keyed by registry + package name
+class PackumentCache {
+  private packumentDir: string;
+
+  constructor(
+    cacheDir: string,
+    readonly ttlMs: number,
+    readonly enabled: boolean,
+    readonly offline: boolean,
+    private mirrorDir?: string,
+  ) {
+    this.packumentDir = path.join(cacheDir, 'packuments');
+  }
+
+  read(registry: string, packageName: string): PackumentCacheEntry | undefined {
+    if (!this.enabled) return undefined;
     try {
-      this.logMemoryUsage("before get versions");
-      await this.rateLimiter.acquire();
-      const response = await this.fetchWithTimeout(`${NpmSearcher.REGISTRY_URL}/${packageName}`, { headers: NpmSearcher.HEADERS }, 15000);
-      if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
-      
-      const data = await response.json();
-      const versions = Object.keys(data.versions).reverse();
-      
-      this.logMemoryUsage("after get versions");
-      return versions;
-    } catch (error) {
-      throw new Error(`Error fetching package versions: ${error instanceof Error ? error.message : String(error)}`);
+      return JSON.parse(fs.readFileSync(this.entryPath(registry, packageName), 'utf8'));
+    } catch {
+      return undefined;
     }
   }
 
-  async getPackageDetails(args: GetPackageDetailsArgs): Promise<any> {
-    const { packageName } = args;
+  write(entry: PackumentCacheEntry): void {
+    if (!this.enabled) return;
+    const file = this.entryPath(entry.registry, entry.packageName);
     try {
-      this.logMemoryUsage("before get details");
+      fsExtra.ensureDirSync(this.packumentDir);
+      // Write to a temporary file first so concurrent readers never see a partial entry
+      const tmpFile = `${file}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpFile, JSON.stringify(entry));
+      fs.renameSync(tmpFile, file);
+    } catch (error) {
+      logger.warn(`Failed to write metadata cache for ${entry.packageName}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  isFresh(entry: PackumentCacheEntry): boolean {
+    return Date.now() - entry.fetchedAt < this.ttlMs;
+  }
+
+  // Look the package up in the mirror directory, using either <name>.json or <name>/package.json
+  readMirror(packageName: string): { packument: any; fetchedAt: number } | undefined {
+    if (!this.mirrorDir) return undefined;
+    for (const candidate of [path.join(this.mirrorDir, `${packageName}.json`), path.join(this.mirrorDir, packageName, 'package.json')]) {
+      try {
+        const stat = fs.statSync(candidate);
+        return { packument: JSON.parse(fs.readFileSync(candidate, 'utf8')), fetchedAt: stat.mtimeMs };
+      } catch {
+        continue;
+      }
+    }
+    return undefined;
+  }
+
+  describeSources(): string {
+    const sources = [this.enabled ? `cache at ${this.packumentDir}` : 'cache disabled'];
+    sources.push(this.mirrorDir ? `mirror at ${this.mirrorDir}` : 'no mirror configured');
+    return sources.join(', ');
+  }
+
+  private entryPath(registry: string, packageName: string): string {
+    const key = crypto.createHash('sha256').update(`${registry}\0${packageName}`).digest('hex');
+    return path.join(this.packumentDir, `${key}.json`);
+  }
+}
+
+// "42s", "5m", "3h", "2d"
+function formatAge(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.round(seconds / 3600)}h`;
+  return `${Math.round(seconds / 86400)}d`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1000) return `${bytes} B`;
+  if (bytes < 1000 * 1000) return `${(bytes / 1000).toFixed(1)} kB`;
+  return `${(bytes / 1000 / 1000).toFixed(1)} MB`;
+}
+
+function describeCache(cache: CacheInfo): string {
+  switch (cache.source) {
+    case 'network': return 'fetched from the registry';
+    case 'revalidated': return `cached, revalidated with the registry (${formatAge(cache.ageMs)} old)`;
+    case 'stale': return `cached, registry unreachable (${formatAge(cache.ageMs)} old)`;
+    case 'mirror': return `served from the offline mirror (${formatAge(cache.ageMs)} old)`;
+    default: return `cached (${formatAge(cache.ageMs)} old)`;
+  }
+}
+
+// Read selected files from an npm tarball (gzipped tar). Paths are returned without the
+// top-level directory, which is "package/" for most packages.
+function extractTarballFiles(tgz: Buffer, wanted: (file: string) => boolean): Record<string, string> {
+  const tar = zlib.gunzipSync(tgz);
+  const files: Record<string, string> = {};
+  let offset = 0;
+  let longName: string | undefined;
+  while (offset + 512 <= tar.length) {
+    const header = tar.subarray(offset, offset + 512);
+    if (header.every(byte => byte === 0)) break;
+    const readString = (start: number, length: number) => header.subarray(start, start + length).toString('utf8').replace(/\0.*$/s, '');
+    const size = parseInt(readString(124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156]);
+    const prefix = readString(345, 155);
+    const body = tar.subarray(offset + 512, offset + 512 + size);
+    let name = longName ?? (prefix ? `${prefix}/${readString(0, 100)}` : readString(0, 100));
+    longName = undefined;
+
+    if (type === 'x') {
+      // PAX extended header: "<len> path=<name>\n" records apply to the next entry
+      longName = body.toString('utf8').match(/\d+ path=([^\n]*)\n/)?.[1];
+    } else if (type === 'L') {
+      longName = body.toString('utf8').replace(/\0.*$/s, '');
+    } else if (type === '0' || type === '\0') {
+      name = name.split('/').slice(1).join('/');
+      if (wanted(name)) files[name] = body.toString('utf8');
+    }
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+  return files;
+}
+
+// A published version from a dist-tag, an exact version or a range (the highest match)
+function resolvePackumentVersion(packument: any, spec: string): string | undefined {
+  const versions = Object.keys(packument.versions ?? {});
+  const tagged = packument['dist-tags']?.[spec];
+  if (tagged) return tagged;
+  const cleaned = semver.clean(spec);
+  if (cleaned && versions.includes(cleaned)) return cleaned;
+  return semver.validRange(spec) ? semver.maxSatisfying(versions, spec) ?? undefined : undefined;
+}
+
+// npm expects scoped names with an encoded slash in registry URLs
+function encodePackageName(packageName: string): string {
+  return packageName.startsWith('@') ? `@${encodeURIComponent(packageName.slice(1))}` : encodeURIComponent(packageName);
+}
+
+// A signal that aborts after timeoutMs or as soon as the caller's signal does
+// (AbortSignal.any is not available on Node 18)
+function timeoutSignal(timeoutMs: number, signal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  if (!signal) return timeout;
+  const controller = new AbortController();
+  for (const source of [signal, timeout]) {
+    if (source.aborted) controller.abort(source.reason);
+    else source.addEventListener('abort', () => controller.abort(source.reason), { once: true });
+  }
+  return controller.signal;
+}
+
+// Owner and name of a GitHub repository from a manifest's "repository" field (string or { url })
+function githubRepository(declared: unknown): { owner: string; repo: string } | undefined {
+  const repository = typeof declared === 'string' ? declared : (declared as { url?: unknown } | undefined)?.url;
+  if (typeof repository !== 'string') return undefined;
+  const match = repository.match(/github\.com[/:]([^/]+)\/([^/#]+?)(\.git)?(#.*)?$/) ?? repository.match(/^(?:github:)?([^/:]+)\/([^/#]+)$/);
+  return match ? { owner: match[1], repo: match[2] } : undefined;
+}
+
+function githubHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { Accept: 'application/vnd.github+json', 'User-Agent': 'npm-helper-mcp' };
+  if (process.env.GITHUB_TOKEN) headers.Authorization = `Bearer ${process.env.GITHUB_TOKEN}`;
+  return headers;
+}
+
+class NpmSearcher {
+  private static readonly WEBSITE_URL = "https://www.npmjs.com";
+  private static readonly DOWNLOADS_BULK_LIMIT = 128;
+  private static readonly HEADERS = {
+    "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36"
+  };
+  private rateLimiter: RateLimiter;
+  private cache: PackumentCache;
+
+  constructor(cache: PackumentCache, private fetchTimeoutMs: number, private downloadsApiUrl: string) {
+    this.rateLimiter = new RateLimiter(2);
+    this.cache = cache;
+  }
+
+  // Build the URL and headers for a registry request, including any configured credentials
+  private registryRequest(packageName: string | undefined, pathname: string, packagePath?: string): { url: string; headers: Record<string, string> } {
+    const config = RegistryConfig.load(RegistryConfig.projectDirFor(packagePath));
+    const url = `${config.registryFor(packageName)}${pathname}`;
+    return { url, headers: { ...NpmSearcher.HEADERS, ...config.headersFor(url) } };
+  }
+
+  // Fetch the full packument for a package, going through the metadata cache
+  async fetchPackument(packageName: string, packagePath: string | undefined, signal?: AbortSignal): Promise<{ packument: any; cache: CacheInfo }> {
+    const { url, headers } = this.registryRequest(packageName, encodePackageName(packageName), packagePath);
+    const registry = url.slice(0, url.length - encodePackageName(packageName).length);
+    const entry = this.cache.read(registry, packageName);
+
+    if (this.cache.offline) {
+      if (entry) return { packument: entry.packument, cache: { cached: true, source: 'cache', ageMs: Date.now() - entry.fetchedAt } };
+      const mirrored = this.cache.readMirror(packageName);
+      if (mirrored) return { packument: mirrored.packument, cache: { cached: true, source: 'mirror', ageMs: Date.now() - mirrored.fetchedAt } };
+      throw new Error(`Offline mode: no metadata for ${packageName} from ${registry} (${this.cache.describeSources()})`);
+    }
+    if (entry && this.cache.isFresh(entry)) {
+      return { packument: entry.packument, cache: { cached: true, source: 'cache', ageMs: Date.now() - entry.fetchedAt } };
+    }
+
+    const conditionalHeaders: Record<string, string> = {};
+    if (entry?.etag) conditionalHeaders['If-None-Match'] = entry.etag;
+    if (entry?.lastModified) conditionalHeaders['If-Modified-Since'] = entry.lastModified;
+
+    let response: Response;
+    try {
+      await this.rateLimiter.acquire();
+      response = await this.fetchWithTimeout(url, { headers: { ...headers, ...conditionalHeaders, Accept: 'application/json' }, signal });
+    } catch (error) {
+      if (!entry || signal?.aborted) throw error;
+      logger.warn(`Registry unreachable for ${packageName}, serving cached metadata: ${error instanceof Error ? error.message : String(error)}`);
+      return { packument: entry.packument, cache: { cached: true, source: 'stale', ageMs: Date.now() - entry.fetchedAt } };
+    }
+
+    if (response.status === 304 && entry) {
+      const ageMs = Date.now() - entry.fetchedAt;
+      this.cache.write({ ...entry, fetchedAt: Date.now() });
+      return { packument: entry.packument, cache: { cached: true, source: 'revalidated', ageMs } };
+    }
+    if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
+
+    const packument = await response.json();
+    this.cache.write({
+      registry,
+      packageName,
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined,
+      fetchedAt: Date.now(),
+      packument,
+    });
+    return { packument, cache: { cached: false, source: 'network', ageMs: 0 } };
+  }
+
+  // Helper method to log memory usage
+  private logMemoryUsage(operation: string) {
+    if (process.memoryUsage) {
+      const memUsage = process.memoryUsage();
+      logger.debug(`Memory usage ${operation}: RSS=${Math.round(memUsage.rss / 1024 / 1024)}MB, Heap=${Math.round(memUsage.heapUsed / 1024 / 1024)}MB`);
+      
+      // Force garbage collection if available and memory usage is high
+      if (memUsage.heapUsed > 200 * 1024 * 1024 && global.gc) {
+        logger.info("Memory usage high, forcing garbage collection");
+        try {
+          global.gc();
+        } catch (e) {
+          logger.error("Failed to force garbage collection", e);
+        }
+      }
+    }
+  }
+
+  // Add timeout to any fetch request; a signal in the options (the tool call's) also cancels it
+  private async fetchWithTimeout(url: string, options: RequestInit = {}, timeoutMs: number = this.fetchTimeoutMs): Promise<Response> {
+    return fetch(url, { ...options, signal: timeoutSignal(timeoutMs, options.signal ?? undefined) });
+  }
+
+  // Download a tarball, sending the credentials configured for its host
+  async fetchTarball(tarballUrl: string, packagePath?: string, signal?: AbortSignal): Promise<Buffer> {
+    if (this.cache.offline) throw new Error("Package tarballs are not available in offline mode");
+    const config = RegistryConfig.load(RegistryConfig.projectDirFor(packagePath));
+    await this.rateLimiter.acquire();
+    const response = await this.fetchWithTimeout(tarballUrl, { headers: { ...NpmSearcher.HEADERS, ...config.headersFor(tarballUrl) }, signal });
+    if (!response.ok) throw new Error(`Tarball download from ${tarballUrl} failed: HTTP ${response.status}`);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  // Query the registry's bulk advisory endpoint with { name: [versions] }
+  async fetchBulkAdvisories(installed: Record<string, string[]>, packagePath?: string, signal?: AbortSignal): Promise<Record<string, any[]>> {
+    if (this.cache.offline) throw new Error("Security advisories are not available in offline mode");
+    const { url, headers } = this.registryRequest(undefined, '-/npm/v1/security/advisories/bulk', packagePath);
+    await this.rateLimiter.acquire();
+    const response = await this.fetchWithTimeout(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify(installed),
+      signal,
+    });
+    if (!response.ok) throw new Error(`Advisory request to ${url} failed: HTTP ${response.status}`);
+    return response.json();
+  }
+
+  // Last week's downloads from the downloads API. Unscoped names are fetched in bulk; the API has no
+  // bulk form for scoped ones. Packages it does not know map to null.
+  async fetchWeeklyDownloads(packageNames: string[], signal?: AbortSignal): Promise<Record<string, number | null>> {
+    if (this.cache.offline) throw new Error("Download counts are not available in offline mode");
+    const base = `${this.downloadsApiUrl.replace(/\/$/, '')}/point/last-week/`;
+    const unscoped = packageNames.filter(name => !name.startsWith('@'));
+    const batches: string[][] = [];
+    for (let i = 0; i < unscoped.length; i += NpmSearcher.DOWNLOADS_BULK_LIMIT) batches.push(unscoped.slice(i, i + NpmSearcher.DOWNLOADS_BULK_LIMIT));
+    for (const name of packageNames.filter(name => name.startsWith('@'))) batches.push([name]);
+
+    const counts: Record<string, number | null> = {};
+    for (const names of batches) {
+      await this.rateLimiter.acquire();
+      const response = await this.fetchWithTimeout(base + names.join(','), { headers: { Accept: 'application/json' }, signal });
+      if (response.status === 404) {
+        for (const name of names) counts[name] = null;
+        continue;
+      }
+      if (!response.ok) throw new Error(`Download counts request to ${base} failed: HTTP ${response.status}`);
+      const body = await response.json();
+      // A single package comes back as { downloads, package }, several as { [name]: { downloads } | null }
+      if (names.length === 1) counts[names[0]] = typeof body?.downloads === 'number' ? body.downloads : null;
+      else for (const name of names) counts[name] = typeof body?.[name]?.downloads === 'number' ? body[name].downloads : null;
+    }
+    return counts;
+  }
+
+  async searchPackages(args: SearchNpmArgs, signal?: AbortSignal): Promise<NpmSearchResult> {
+    const { query, maxResults, packagePath } = args;
+    if (this.cache.offline) throw new Error("Error searching npm packages: search is not available in offline mode");
+    try {
+      this.logMemoryUsage("before search");
       await this.rateLimiter.acquire();
-      const response = await this.fetchWithTimeout(`${NpmSearcher.REGISTRY_URL}/${packageName}`, { headers: NpmSearcher.HEADERS }, 20000);
+      // A query starting with a scope is sent to that scope's registry
+      const scope = query.match(/^@[^/\s]+/)?.[0];
+      const { url: searchUrl, headers } = this.registryRequest(scope && `${scope}/`, `-/v1/search?text=${encodeURIComponent(query)}&size=${maxResults}`, packagePath);
+      const response = await this.fetchWithTimeout(searchUrl, { headers, signal });
       if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
       
       const data = await response.json();
+      const packages: NpmPackageInfo[] = data.objects.map((obj: any) => ({
+        name: obj.package.name,
+        version: obj.package.version,
+        description: obj.package.description,
+        author: obj.package.author?.name,
+        homepage: obj.package.links?.homepage,
+        repository: obj.package.links?.repository,
+        keywords: obj.package.keywords || [],
+        weeklyDownloads: typeof obj.downloads?.weekly === 'number' ? obj.downloads.weekly : undefined,
+        lastPublish: new Date(obj.package.date).toLocaleDateString()
+      }));
+
+      // Older registries do not include downloads in search results; ask the downloads API
+      const uncounted = packages.filter(pkg => pkg.weeklyDownloads === undefined).map(pkg => pkg.name);
+      if (uncounted.length > 0) {
+        try {
+          const counts = await this.fetchWeeklyDownloads(uncounted, signal);
+          for (const pkg of packages) pkg.weeklyDownloads ??= counts[pkg.name] ?? undefined;
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          logger.warn(`Download counts unavailable: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+      
+      this.logMemoryUsage("after search");
+      return { packages, totalResults: data.total };
+    } catch (error) {
+      throw new Error(`Error searching npm packages: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // Scrape a package page on npmjs.com. Only a fallback: the selectors break when the site changes.
+  async scrapePackagePage(url: string, signal?: AbortSignal): Promise<{ packageName: string; packageVersion: string; description: string; readme: string }> {
+    if (this.cache.offline) throw new Error("Package pages are not available in offline mode");
+    await this.rateLimiter.acquire();
+    logger.info(`Fetching content from: ${url}`);
+    const response = await this.fetchWithTimeout(url, { headers: NpmSearcher.HEADERS, redirect: 'follow', signal });
+    if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
+
+    const html = await response.text();
+    const $ = cheerio.load(html);
+    $('script, style, nav, header, footer').remove();
+    return {
+      packageName: $('#top h1').text().trim(),
+      packageVersion: $('[data-testid="version-badge"]').text().trim(),
+      description: $('#package-description').text().trim(),
+      readme: $('#readme').text().trim(),
+    };
+  }
+
+  async fetchPackageContent(args: FetchPackageContentArgs, signal?: AbortSignal): Promise<string> {
+    const { url } = args;
+    if (this.cache.offline) throw new Error("Error fetching package content: not available in offline mode");
+    try {
+      this.logMemoryUsage("before fetch content");
+      const { packageName, packageVersion, description, readme } = await this.scrapePackagePage(url, signal);
+      let content = "";
+      if (packageName) content += `Package: ${packageName}\n`;
+      if (packageVersion) content += `Version: ${packageVersion}\n`;
+      if (description) content += `Description: ${description}\n\n`;
+      if (readme) {
+        content += `README:\n${readme.length > 4000 ? readme.substring(0, 4000) + '...\n[README content truncated]' : readme}`;
+      }
+      
+      this.logMemoryUsage("after fetch content");
+      return content || "No extractable content found.";
+    } catch (error) {
+      throw new Error(`Error fetching package content: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async getPackageVersions(args: GetPackageVersionsArgs, signal?: AbortSignal): Promise<{ versions: string[]; distTags: Record<string, string>; cache: CacheInfo }> {
+    const { packageName, packagePath } = args;
+    try {
+      this.logMemoryUsage("before get versions");
+      const { packument: data, cache } = await this.fetchPackument(packageName, packagePath, signal);
+      // Newest first by semver; the packument's key order is not release order
+      const versions = semver.rsort(Object.keys(data.versions ?? {}).filter(version => semver.valid(version)));
+      
+      this.logMemoryUsage("after get versions");
+      return { versions, distTags: data['dist-tags'] ?? {}, cache };
+    } catch (error) {
+      throw new Error(`Error fetching package versions: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async getPackageDetails(args: GetPackageDetailsArgs, signal?: AbortSignal): Promise<any> {
+    const { packageName, packagePath } = args;
+    try {
+      this.logMemoryUsage("before get details");
+      const { packument: data, cache } = await this.fetchPackument(packageName, packagePath, signal);
+      // The 10 highest versions, newest first; the packument's key order is not release order
+      const recentVersions = semver.rsort(Object.keys(data.versions ?? {}).filter(version => semver.valid(version))).slice(0, 10);
       
       // Process data to limit memory impact
       const processedData = {
@@ -308,30 +1546,29 @@ class NpmSearcher {
         license: data.license,
         // Only include the 10 most recent versions to reduce memory usage
         versions: Object.fromEntries(
-          Object.entries(data.versions)
-            .slice(-10)
-            .map(([version, details]: [string, any]) => [
+          recentVersions.map(version => {
+            const details = data.versions[version];
+            return [
               version,
               {
                 name: details.name,
                 version: details.version,
                 description: details.description,
                 main: details.main,
+                deprecated: details.deprecated || undefined,
                 dependencies: details.dependencies,
                 devDependencies: details.devDependencies,
                 peerDependencies: details.peerDependencies
               }
-            ])
+            ];
+          })
         ),
         time: data.time ? {
           created: data.time.created,
           modified: data.time.modified,
-          ...Object.fromEntries(
-            Object.entries(data.time)
-              .filter(([key]) => !['created', 'modified'].includes(key))
-              .slice(-10)
-          )
-        } : undefined
+          ...Object.fromEntries(recentVersions.filter(version => data.time[version]).map(version => [version, data.time[version]]))
+        } : undefined,
+        cache: { ...cache, age: formatAge(cache.ageMs) }
       };
       
       this.logMemoryUsage("after get details");
@@ -348,381 +1585,4870 @@ class NpmSearcher {
       output += `📦 ${pkg.name}@${pkg.version}\n`;
       if (pkg.description) output += `   Description: ${pkg.description}\n`;
       if (pkg.author) output += `   Author: ${pkg.author}\n`;
+      if (pkg.weeklyDownloads !== undefined) output += `   Weekly downloads: ${pkg.weeklyDownloads.toLocaleString('en-US')}\n`;
       output += '\n';
     });
     return output;
   }
 
-  formatVersions(packageName: string, versions: string[]): string {
+  formatVersions(packageName: string, versions: string[], cache?: CacheInfo): string {
     if (!versions.length) return `No versions found for ${packageName}.`;
     let output = `📦 ${packageName}\nAvailable versions (newest first):\n`;
     output += versions.slice(0, 15).join(', ');
     if (versions.length > 15) output += `\n...and ${versions.length - 15} more versions`;
+    if (cache) output += `\n\nMetadata ${describeCache(cache)}.`;
     return output;
   }
 }
 
+// A package inside a workspace; the root package.json is reported as "."
+interface WorkspaceMember {
+  name: string;
+  relativeDir: string;
+  packageFile: string;
+}
 
-class NpmCheckUpdatesHandler {
-  private resolvePackagePath(packagePath?: string): string {
-    const resolvedPath = path.resolve(process.cwd(), packagePath || 'package.json');
-    if (!fs.existsSync(resolvedPath)) {
-      throw new Error(`Package file not found: ${resolvedPath}`);
-    }
-    return resolvedPath;
+// Dependency sections compared when looking for version mismatches between workspace members
+const WORKSPACE_DEPENDENCY_SECTIONS = ['dependencies', 'devDependencies', 'optionalDependencies'] as const;
+
+// Workspace globs from package.json (npm/yarn/bun) or pnpm-workspace.yaml
+function readWorkspacePatterns(rootDir: string): string[] {
+  const pnpmWorkspaceFile = path.join(rootDir, 'pnpm-workspace.yaml');
+  if (fs.existsSync(pnpmWorkspaceFile)) {
+    const parsed = YAML.parse(fs.readFileSync(pnpmWorkspaceFile, 'utf8')) ?? {};
+    if (Array.isArray(parsed.packages)) return parsed.packages.map(String);
   }
+  const packageJson = fsExtra.readJsonSync(path.join(rootDir, 'package.json'));
+  const workspaces = packageJson.workspaces;
+  if (Array.isArray(workspaces)) return workspaces.map(String);
+  if (workspaces && Array.isArray(workspaces.packages)) return workspaces.packages.map(String);
+  return [];
+}
 
-  private async runNcu(baseOptions: any): Promise<any> { /* ... (same as before) ... */
-    const ncuOptions = {
-      ...baseOptions,
-      jsonUpgraded: true,
-      silent: true,
-      stdout: process.stderr,
-      stderr: process.stderr,
-      loglevel: 'silent',
-      json: true,
-    };
-    logger.debug(`Running ncu with options: ${JSON.stringify(ncuOptions)}`);
+// Expand one workspace glob ("packages/*", "apps/**", "tools/cli") into directories holding a package.json
+function expandWorkspacePattern(rootDir: string, pattern: string): string[] {
+  const segments = pattern.replace(/^\.\//, '').replace(/\/+$/, '').split('/').filter(Boolean);
+  const segmentToRegExp = (segment: string) =>
+    new RegExp(`^${segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+  const listDirs = (dir: string) => {
     try {
-      return await ncu.run(ncuOptions) || {};
-    } catch (error) {
-        // ncu might throw errors for various reasons (e.g., no package file)
-        // We want to propagate this as an error message.
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        logger.error(`NCU execution error: ${errorMessage}`);
-        throw new Error(`NCU execution failed: ${errorMessage}`);
+      return fs.readdirSync(dir, { withFileTypes: true })
+        .filter(entry => entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.'))
+        .map(entry => entry.name);
+    } catch {
+      return [];
+    }
+  };
+
+  const matches = new Set<string>();
+  const walk = (dir: string, index: number) => {
+    if (index === segments.length) {
+      if (fs.existsSync(path.join(dir, 'package.json'))) matches.add(dir);
+      return;
+    }
+    const segment = segments[index];
+    if (segment === '**') {
+      walk(dir, index + 1);
+      for (const child of listDirs(dir)) walk(path.join(dir, child), index);
+    } else if (/[*?]/.test(segment)) {
+      const regExp = segmentToRegExp(segment);
+      for (const child of listDirs(dir)) if (regExp.test(child)) walk(path.join(dir, child), index + 1);
+    } else {
+      walk(path.join(dir, segment), index + 1);
     }
+  };
+  walk(rootDir, 0);
+  return [...matches];
+}
+
+// Find every member of the workspace rooted at rootPackageFile, including the root itself
+function findWorkspaceMembers(rootPackageFile: string): WorkspaceMember[] {
+  const rootDir = path.dirname(rootPackageFile);
+  const patterns = readWorkspacePatterns(rootDir);
+  if (patterns.length === 0) {
+    throw new Error(`No workspaces defined in ${rootPackageFile} or pnpm-workspace.yaml`);
   }
 
-  // Methods now accept Zod-inferred types and throw errors on failure
-  async checkUpdates(options: CheckUpdatesArgs): Promise<{ data: any; message: string }> {
-    const packageFile = this.resolvePackagePath(options.packagePath);
-    const ncuBaseOptions: any = { packageFile };
-    if (options.filter) ncuBaseOptions.filter = options.filter;
-    if (options.reject) ncuBaseOptions.reject = options.reject;
-    if (options.target) ncuBaseOptions.target = options.target;
-    if (options.peer) ncuBaseOptions.peer = true;
-    if (options.minimal) ncuBaseOptions.minimal = true;
-    if (options.packageManager) ncuBaseOptions.packageManager = options.packageManager;
-    
-    const result = await this.runNcu(ncuBaseOptions);
-    const numUpdates = Object.keys(result).length;
-    return {
-      data: result,
-      message: numUpdates > 0 ? `Found ${numUpdates} outdated dependencies.` : "All dependencies are up-to-date."
+  const included = new Set<string>();
+  for (const pattern of patterns.filter(p => !p.startsWith('!'))) {
+    for (const dir of expandWorkspacePattern(rootDir, pattern)) included.add(dir);
+  }
+  for (const pattern of patterns.filter(p => p.startsWith('!'))) {
+    for (const dir of expandWorkspacePattern(rootDir, pattern.slice(1))) included.delete(dir);
+  }
+  included.delete(rootDir);
+
+  const toMember = (dir: string): WorkspaceMember => {
+    const packageFile = path.join(dir, 'package.json');
+    // patterns such as "../other/*" or symlinked members can point outside the project
+    sandboxPath(packageFile, 'Workspace member');
+    const relativeDir = path.relative(rootDir, dir) || '.';
+    const name = fsExtra.readJsonSync(packageFile, { throws: false })?.name;
+    return { name: relativeDir === '.' ? '.' : name || relativeDir, relativeDir, packageFile };
+  };
+  return [toMember(rootDir), ...[...included].sort().map(toMember)];
+}
+
+// Narrow the member list to the names or directories the caller asked for
+function selectWorkspaceMembers(members: WorkspaceMember[], selection?: string[]): WorkspaceMember[] {
+  if (!selection?.length) return members;
+  return selection.map(wanted => {
+    const normalized = wanted.replace(/^\.\//, '').replace(/\/+$/, '') || '.';
+    const member = members.find(m => m.name === wanted || m.relativeDir === normalized);
+    if (!member) {
+      throw new Error(`Unknown workspace member "${wanted}". Available: ${members.map(m => m.name).join(', ')}`);
+    }
+    return member;
+  });
+}
+
+// Dependencies declared with different ranges in different workspace members
+function findVersionMismatches(members: WorkspaceMember[]): Record<string, Record<string, string>> {
+  const declared: Record<string, Record<string, string>> = {};
+  for (const member of members) {
+    const packageJson = fsExtra.readJsonSync(member.packageFile, { throws: false }) ?? {};
+    for (const section of WORKSPACE_DEPENDENCY_SECTIONS) {
+      for (const [dep, range] of Object.entries<string>(packageJson[section] ?? {})) {
+        // Links between members are not version pins
+        if (typeof range !== 'string' || range.startsWith('workspace:')) continue;
+        (declared[dep] ??= {})[member.name] = range;
+      }
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(declared).filter(([, ranges]) => new Set(Object.values(ranges)).size > 1)
+  );
+}
+
+// Releases younger than this are flagged as a risk in update reports
+const RECENT_RELEASE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One proposed update, classified by semver bump and annotated with release metadata
+interface UpdateDetail {
+  name: string;
+  current: string;
+  currentVersion: string | null;
+  target: string;
+  targetVersion: string | null;
+  bump: 'major' | 'minor' | 'patch' | 'prerelease' | 'none' | 'unknown'; // "none": only the range changes
+  publishedAt: string | null;
+  ageDays: number | null;
+  deprecated: string | null;
+  engines: { node: string | null; project: string; projectSource: ProjectNodeRange['source']; compatible: boolean | null };
+  risk: 'low' | 'medium' | 'high' | 'unknown';
+  riskReasons: string[];
+}
+
+// Version manager files consulted after engines.node, nearest at or above the project
+const NODE_VERSION_FILES = [['.nvmrc', 'nvmrc'], ['.node-version', 'node-version']] as const;
+
+// nvm's lts/<codename> aliases
+const NODE_LTS_CODENAMES: Record<string, number> = {
+  argon: 4, boron: 6, carbon: 8, dubnium: 10, erbium: 12, fermium: 14, gallium: 16, hydrogen: 18, iron: 20, jod: 22, krypton: 24,
+};
+
+type ProjectNodeRange = z.infer<typeof ProjectNodeRangeSchema>;
+
+// The Node range a project runs on: its engines.node, the version in .nvmrc or .node-version,
+// or the running Node version
+function readProjectNodeRange(projectDir: string): ProjectNodeRange {
+  const packageFile = path.join(projectDir, 'package.json');
+  const packageJson = fsExtra.readJsonSync(packageFile, { throws: false }) ?? {};
+  const declared = packageJson.engines?.node;
+  if (typeof declared === 'string' && semver.validRange(declared)) return { range: declared, source: 'engines', file: packageFile };
+
+  let dir = path.resolve(projectDir);
+  while (true) {
+    for (const [name, source] of NODE_VERSION_FILES) {
+      const file = path.join(dir, name);
+      if (!fs.existsSync(file)) continue;
+      const value = fs.readFileSync(file, 'utf8').split('\n').map(line => line.replace(/#.*/, '').trim()).find(Boolean) ?? '';
+      const codename = value.match(/^lts\/(\w+)$/i)?.[1].toLowerCase();
+      const range = codename && NODE_LTS_CODENAMES[codename] ? String(NODE_LTS_CODENAMES[codename]) : value.replace(/^v(?=\d)/, '');
+      // Aliases such as "node" or "lts/*" name no fixed version
+      if (range && semver.validRange(range)) return { range, source, file };
+      logger.warn(`Ignoring ${file}: "${value}" is not a Node version`);
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  return { range: process.version.replace(/^v/, ''), source: 'runtime', file: null };
+}
+
+// Whether every Node version the project supports is allowed by a package's engines.node
+function nodeRangeCompatible(projectRange: string, enginesNode: string | undefined): boolean | null {
+  if (!enginesNode) return true;
+  if (!semver.validRange(enginesNode)) return null;
+  return semver.subset(projectRange, enginesNode, { includePrerelease: true });
+}
+
+// The newest stable, non-deprecated version whose engines.node allows the project's Node range,
+// optionally limited to a range
+function newestNodeCompatible(packument: any, projectRange: string, within?: string): string | null {
+  const versions = semver.rsort(Object.keys(packument.versions ?? {}).filter(version => semver.valid(version) && !semver.prerelease(version)));
+  return versions.find(version => {
+    const manifest = packument.versions[version];
+    return !manifest.deprecated && (!within || semver.satisfies(version, within))
+      && nodeRangeCompatible(projectRange, manifest.engines?.node) === true;
+  }) ?? null;
+}
+
+const PROJECT_CONFIG_FILE = '.npmhelperrc.json';
+
+// Key in package.json that can hold the same settings as .npmhelperrc.json
+const PACKAGE_JSON_CONFIG_KEY = 'npmHelper';
+
+// The nearest .npmhelperrc.json, or package.json with an "npmHelper" key, at or above a project
+// directory; in the same directory .npmhelperrc.json wins
+function readProjectConfig(projectDir: string): { file: string; config: Record<string, any> } | undefined {
+  let dir = path.resolve(projectDir);
+  while (true) {
+    const file = path.join(dir, PROJECT_CONFIG_FILE);
+    if (fs.existsSync(file)) {
+      try {
+        return { file, config: JSON.parse(fs.readFileSync(file, 'utf8')) ?? {} };
+      } catch (error) {
+        throw new Error(`Failed to parse ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    const packageFile = path.join(dir, 'package.json');
+    const embedded = fsExtra.readJsonSync(packageFile, { throws: false })?.[PACKAGE_JSON_CONFIG_KEY];
+    if (embedded && typeof embedded === 'object') return { file: packageFile, config: embedded };
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+const MAX_DIFF_LINES = 400;
+
+// Unified diff of one file, with paths shown relative to the project directory
+function unifiedDiff(file: string, before: string, after: string, baseDir: string): string {
+  const name = path.relative(baseDir, file) || path.basename(file);
+  const lines = createTwoFilesPatch(`a/${name}`, `b/${name}`, before, after).replace(/^=+\n/, '').split('\n');
+  if (lines.length <= MAX_DIFF_LINES) return lines.join('\n');
+  return [...lines.slice(0, MAX_DIFF_LINES), `... ${lines.length - MAX_DIFF_LINES} more diff lines for ${name}`, ''].join('\n');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Replace dependency ranges in package.json text without reformatting the rest of the file.
+// Falls back to re-serializing the JSON when a range can't be found textually.
+function rewriteDependencyRanges(text: string, upgrades: Record<string, string>): { text: string; applied: Record<string, string> } {
+  const packageJson = JSON.parse(text);
+  const applied: Record<string, string> = {};
+  let result = text;
+  for (const section of ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies']) {
+    const sectionMatch = new RegExp(`"${section}"\\s*:\\s*\\{`).exec(result);
+    if (!sectionMatch) continue;
+    const start = sectionMatch.index + sectionMatch[0].length;
+    const end = result.indexOf('}', start);
+    let body = result.slice(start, end);
+    for (const [name, range] of Object.entries(upgrades)) {
+      const current = packageJson[section]?.[name];
+      if (typeof current !== 'string' || current === range) continue;
+      body = body.replace(new RegExp(`("${escapeRegExp(name)}"\\s*:\\s*)"${escapeRegExp(current)}"`), (_match, key) => `${key}${JSON.stringify(range)}`);
+      packageJson[section][name] = range;
+      applied[name] = range;
+    }
+    result = result.slice(0, start) + body + result.slice(end);
+  }
+
+  let unchanged: boolean;
+  try {
+    unchanged = JSON.stringify(JSON.parse(result)) === JSON.stringify(packageJson);
+  } catch {
+    unchanged = false;
+  }
+  if (!unchanged) {
+    const indent = text.match(/^[ \t]+(?=")/m)?.[0] ?? '  ';
+    result = JSON.stringify(packageJson, null, indent) + (text.endsWith('\n') ? '\n' : '');
+  }
+  return { text: result, applied };
+}
+
+// Cancellation and progress reporting for one tool call, handed down to long-running work
+interface ToolControl {
+  signal?: AbortSignal;
+  progress?: (progress: number, total: number, message: string) => void;
+  confirm?: (message: string) => Promise<boolean>; // asks the user through the client; rejects when it can't
+}
+
+const COMMAND_OUTPUT_TAIL = 2000;
+
+// Split a command line such as `npm run test -- --ci` into program and arguments, honouring quotes
+function splitCommand(command: string): string[] {
+  return [...command.matchAll(/"(.+?)"|'(.+?)'|\S+/g)].map(match => match[1] ?? match[2] ?? match[0]);
+}
+
+// Run a command in a project without a shell. Output is captured instead of inherited, since
+// stdout carries the MCP stream; only its tail is kept for error messages, while onLine sees
+// every line as it arrives. Aborting the signal kills the child.
+function runCommand(command: string[], cwd: string, signal?: AbortSignal, onLine?: (line: string) => void): Promise<string> {
+  const [program, ...args] = command;
+  return new Promise((resolve, reject) => {
+    let output = '';
+    const child = spawn(program, args, {
+      cwd,
+      signal,
+      env: { ...process.env, CI: '1' },
+      stdio: ['ignore', 'pipe', 'pipe'],
+      shell: process.platform === 'win32', // npm, yarn and pnpm are .cmd shims there
+    });
+    const collector = () => {
+      let pending = ''; // a line split across chunks
+      return (chunk: Buffer) => {
+        const text = chunk.toString();
+        output = (output + text).slice(-COMMAND_OUTPUT_TAIL);
+        if (!onLine) return;
+        const lines = (pending + text).split(/\r?\n|\r/);
+        pending = lines.pop() ?? '';
+        for (const line of lines) if (line.trim()) onLine(line.trim());
+      };
+    };
+    child.stdout.on('data', collector());
+    child.stderr.on('data', collector());
+    child.on('error', error => reject(signal?.aborted ? signal.reason : error));
+    child.on('close', (code, killedBy) => {
+      if (code === 0) return resolve(output);
+      reject(new Error(`${command.join(' ')} failed with ${code === null ? killedBy : `exit code ${code}`}${output.trim() ? `:\n${output.trim()}` : ''}`));
+    });
+  });
+}
+
+// Lockfiles that identify a package manager; the first one listed for each is the one it writes
+const PACKAGE_MANAGER_LOCKFILES: Array<[string, InstallPackageManager]> = [
+  ['package-lock.json', 'npm'],
+  ['npm-shrinkwrap.json', 'npm'],
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lock', 'bun'],
+  ['bun.lockb', 'bun'],
+];
+
+interface DetectedPackageManager {
+  name: InstallPackageManager;
+  version: string | null; // from the packageManager field
+  source: 'argument' | 'packageManager' | 'lockfile' | 'default';
+  dir: string; // where installs run: the directory of the field or lockfile, else the project
+}
+
+// The package manager of a project: the nearest package.json "packageManager" field (as Corepack
+// reads it) or lockfile at or above the project, so workspace members resolve to their root; npm
+// when there is neither. The walk stops at the allowed root, as installs run where it ends.
+function detectPackageManager(projectDir: string): DetectedPackageManager {
+  let dir = realPath(projectDir);
+  while (insideAllowedRoots(dir)) {
+    const field = fsExtra.readJsonSync(path.join(dir, 'package.json'), { throws: false })?.packageManager;
+    const match = typeof field === 'string' ? field.match(/^(npm|pnpm|yarn|bun)@([^+\s]+)/) : null;
+    if (match) return { name: match[1] as InstallPackageManager, version: match[2], source: 'packageManager', dir };
+    const lockfile = PACKAGE_MANAGER_LOCKFILES.find(([name]) => fs.existsSync(path.join(dir, name)));
+    if (lockfile) return { name: lockfile[1], version: null, source: 'lockfile', dir };
+    const parent = path.dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  return { name: 'npm', version: null, source: 'default', dir: realPath(projectDir) };
+}
+
+// The lockfile an install in the detected directory reads and writes
+function packageManagerLockfile(manager: DetectedPackageManager): string {
+  const names = PACKAGE_MANAGER_LOCKFILES.filter(([, name]) => name === manager.name).map(([file]) => path.join(manager.dir, file));
+  return names.find(file => fs.existsSync(file)) ?? names[0];
+}
+
+// The install command for a package manager. runCommand sets CI=1, under which pnpm and yarn 2+
+// refuse to update the lockfile by default, so a regular install asks for that explicitly.
+function installCommand(manager: DetectedPackageManager, options: { frozenLockfile?: boolean; ignoreScripts?: boolean } = {}): string[] {
+  const frozen = options.frozenLockfile ?? false;
+  switch (manager.name) {
+    case 'npm':
+      return ['npm', frozen ? 'ci' : 'install', ...(options.ignoreScripts ? ['--ignore-scripts'] : [])];
+    case 'pnpm':
+      return ['pnpm', 'install', frozen ? '--frozen-lockfile' : '--no-frozen-lockfile', ...(options.ignoreScripts ? ['--ignore-scripts'] : [])];
+    case 'yarn': {
+      const berry = manager.version
+        ? (semver.coerce(manager.version)?.major ?? 1) >= 2
+        : fs.existsSync(path.join(manager.dir, '.yarnrc.yml'));
+      if (berry) return ['yarn', 'install', frozen ? '--immutable' : '--no-immutable', ...(options.ignoreScripts ? ['--mode=skip-build'] : [])];
+      return ['yarn', 'install', ...(frozen ? ['--frozen-lockfile'] : []), ...(options.ignoreScripts ? ['--ignore-scripts'] : [])];
+    }
+    case 'bun':
+      return ['bun', 'install', ...(frozen ? ['--frozen-lockfile'] : []), ...(options.ignoreScripts ? ['--ignore-scripts'] : [])];
+  }
+}
+
+// Keep the declared range's style: "~1.2.3" -> "~1.4.0", "1.2.3" -> "1.4.0", anything else -> "^1.4.0"
+function rangeLike(declared: string, version: string): string {
+  const prefix = declared.trim().match(/^(\^|~|>=)?/)?.[1];
+  if (prefix === '~' || prefix === '>=') return `${prefix}${version}`;
+  if (semver.valid(declared.trim())) return version;
+  return `^${version}`;
+}
+
+interface ChangeRecord {
+  id: string;
+  tool: string;
+  description: string;
+  projectDir: string;
+  createdAt: string;
+  files: Array<{ path: string; existed: boolean }>;
+  restoredAt?: string;
+}
+
+// Backups of package.json and lockfiles taken before every write. Each change is stored as
+// <snapshotDir>/<id>/change.json plus one copy per file, so changes from earlier sessions can
+// still be listed and restored. Ids sort chronologically.
+class ChangeJournal {
+  private sessionIds = new Set<string>();
+
+  constructor(private snapshotDir: string) {}
+
+  snapshot(tool: string, description: string, projectDir: string, files: string[]): ChangeRecord {
+    const now = new Date();
+    const id = `${now.toISOString().replace(/[-:.]/g, '')}-${crypto.randomBytes(3).toString('hex')}`;
+    const dir = path.join(this.snapshotDir, id);
+    fsExtra.ensureDirSync(dir);
+    const record: ChangeRecord = { id, tool, description, projectDir, createdAt: now.toISOString(), files: [] };
+    [...new Set(files)].forEach((file, index) => {
+      const existed = fs.existsSync(file);
+      if (existed) fs.copyFileSync(file, path.join(dir, String(index)));
+      record.files.push({ path: file, existed });
+    });
+    this.save(record);
+    this.sessionIds.add(id);
+    logger.info(`Saved snapshot ${id} of ${record.files.length} files before ${tool}`);
+    return record;
+  }
+
+  // Drop a snapshot that turned out not to be needed because nothing was written
+  discard(id: string): void {
+    this.sessionIds.delete(id);
+    fsExtra.removeSync(path.join(this.snapshotDir, id));
+  }
+
+  // Diff between the snapshot and the files as they are now
+  diff(record: ChangeRecord): string {
+    return record.files.map((file, index) => {
+      const before = file.existed ? fs.readFileSync(path.join(this.snapshotDir, record.id, String(index)), 'utf8') : '';
+      const after = fs.existsSync(file.path) ? fs.readFileSync(file.path, 'utf8') : '';
+      return before === after ? '' : unifiedDiff(file.path, before, after, record.projectDir);
+    }).join('');
+  }
+
+  list(projectDir?: string): Array<ChangeRecord & { session: boolean }> {
+    let ids: string[];
+    try {
+      ids = fs.readdirSync(this.snapshotDir);
+    } catch {
+      return [];
+    }
+    const records: Array<ChangeRecord & { session: boolean }> = [];
+    for (const id of ids) {
+      const record = this.read(id);
+      // the snapshot dir is shared between servers, which may have other allowed roots
+      if (!record || !insideAllowedRoots(record.projectDir)) continue;
+      if (projectDir && record.projectDir !== projectDir && !record.files.some(file => file.path.startsWith(projectDir + path.sep))) continue;
+      records.push({ ...record, session: this.sessionIds.has(id) });
+    }
+    return records.sort((a, b) => b.id.localeCompare(a.id));
+  }
+
+  listChanges(args: ListChangesArgs): { data: any; message: string } {
+    const projectDir = args.packagePath ? RegistryConfig.projectDirFor(args.packagePath) : undefined;
+    const records = this.list(projectDir);
+    const changes = records.slice(0, args.limit);
+    return {
+      data: { snapshotDir: this.snapshotDir, changes },
+      message: records.length > 0
+        ? `Found ${records.length} recorded changes (${records.filter(record => record.session).length} from this session); showing ${changes.length}.`
+        : `No recorded changes in ${this.snapshotDir}.`
+    };
+  }
+
+  // Put the files of a change back as they were before it. The current state is snapshotted
+  // first, so an undo can itself be undone by restoring that snapshot.
+  undo(args: UndoLastChangeArgs): { data: any; message: string } {
+    const projectDir = args.packagePath ? RegistryConfig.projectDirFor(args.packagePath) : undefined;
+    const changeId = args.changeId ?? this.list(projectDir).find(change => !change.restoredAt && change.tool !== 'undo_last_change')?.id;
+    const record = changeId ? this.read(changeId) : undefined;
+    if (!record) {
+      throw new Error(args.changeId ? `Change not found: ${args.changeId}` : `No change left to undo in ${this.snapshotDir}`);
+    }
+    // Snapshots are shared between sessions, so one may belong to a project this server may not touch
+    for (const file of record.files) sandboxPath(file.path, `File of change ${record.id}`);
+    // restoring is a write like any other, so it honours updates.writeProtected
+    for (const file of record.files) NpmCheckUpdatesHandler.assertWritable(file.path, 'turn it off to undo the change');
+
+    const backup = this.snapshot('undo_last_change', `State before restoring ${record.id}`, record.projectDir, record.files.map(file => file.path));
+    const diff = this.restore(record);
+    record.restoredAt = new Date().toISOString();
+    this.save(record);
+
+    const restoredFiles = record.files.map(file => path.relative(record.projectDir, file.path) || file.path);
+    return {
+      data: { restored: record, backupId: backup.id, diff },
+      message: `Restored ${restoredFiles.join(', ')} to their state before ${record.tool} (${record.id}). `
+        + `The previous state was saved as ${backup.id}; reinstall to sync node_modules.`
+    };
+  }
+
+  // Put the files back and forget the snapshot, for writes that were abandoned half way
+  rollback(record: ChangeRecord): void {
+    this.restore(record);
+    this.discard(record.id);
+  }
+
+  // Write the snapshotted files back, returning the diff from their current state
+  private restore(record: ChangeRecord): string {
+    return record.files.map((file, index) => {
+      const current = fs.existsSync(file.path) ? fs.readFileSync(file.path, 'utf8') : '';
+      if (file.existed) {
+        const restored = fs.readFileSync(path.join(this.snapshotDir, record.id, String(index)), 'utf8');
+        if (restored === current) return '';
+        fs.writeFileSync(file.path, restored);
+        return unifiedDiff(file.path, current, restored, record.projectDir);
+      }
+      if (!fs.existsSync(file.path)) return '';
+      fs.unlinkSync(file.path);
+      return unifiedDiff(file.path, current, '', record.projectDir);
+    }).join('');
+  }
+
+  read(id: string): ChangeRecord | undefined {
+    if (!/^[\w-]+$/.test(id)) return undefined;
+    try {
+      return JSON.parse(fs.readFileSync(path.join(this.snapshotDir, id, 'change.json'), 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private save(record: ChangeRecord): void {
+    fs.writeFileSync(path.join(this.snapshotDir, record.id, 'change.json'), JSON.stringify(record, null, 2));
+  }
+}
+
+// The `updates` section of the project policy file
+const UpdateRuleSchema = z.object({
+  maxTarget: z.enum(['patch', 'minor', 'major']).optional(), // the largest bump from the current range
+  maxVersion: z.string().refine(range => semver.validRange(range) !== null, range => ({ message: `"${range}" is not a valid semver range` })).optional(), // a range nothing above may be adopted from, e.g. "18"
+  frozen: z.boolean().optional(), // keep the current range
+  ignore: z.boolean().optional(), // leave the package out of updates
+  minReleaseAgeDays: z.number().min(0).optional(),
+}).strict();
+type UpdateRule = z.infer<typeof UpdateRuleSchema>;
+
+const UpdatePolicyConfigSchema = z.object({
+  rules: z.record(UpdateRuleSchema).optional(), // keyed by package name or glob, such as "@types/*"
+  minReleaseAgeDays: z.number().min(0).optional(), // for every package without its own
+  writeProtected: z.boolean().optional(), // refuse to write package.json; dryRun still works
+}).strict();
+
+interface UpdatePolicy {
+  file: string | null;
+  rules: Array<[string, UpdateRule]>;
+  minReleaseAgeDays: number;
+  writeProtected: boolean;
+}
+
+class NpmCheckUpdatesHandler {
+  private static readonly PROGRESS_INTERVAL_MS = 500; // between progress notifications for install output
+
+  constructor(
+    private npmSearcher: NpmSearcher,
+    private lockfileInspector: LockfileInspector,
+    private changeJournal: ChangeJournal,
+    private doctorCommands: string[] = [], // run without asking, besides the package manager's own
+  ) {}
+
+  private resolvePackagePath(packagePath?: string): string {
+    const resolvedPath = path.resolve(process.cwd(), packagePath || 'package.json');
+    if (!fs.existsSync(resolvedPath)) {
+      throw new Error(`Package file not found: ${resolvedPath}`);
+    }
+    return resolvedPath;
+  }
+
+  private async runNcu(baseOptions: any, signal?: AbortSignal): Promise<any> { /* ... (same as before) ... */
+    // Run ncu from the project directory and point it at the registry from the project's .npmrc.
+    // Without a packageManager argument, the project's own one is used.
+    const projectDir = path.dirname(baseOptions.packageFile);
+    const registryConfig = RegistryConfig.load(projectDir);
+    const ncuOptions = {
+      cwd: projectDir,
+      ...(registryConfig.registry !== RegistryConfig.DEFAULT_REGISTRY ? { registry: registryConfig.registry } : {}),
+      packageManager: detectPackageManager(projectDir).name,
+      ...baseOptions,
+      jsonUpgraded: true,
+      silent: true,
+      stdout: process.stderr,
+      stderr: process.stderr,
+      loglevel: 'silent',
+      json: true,
+    };
+    logger.debug(`Running ncu with options: ${JSON.stringify(ncuOptions)}`);
+    signal?.throwIfAborted();
+    let result: any;
+    try {
+      result = await ncu.run(ncuOptions) || {};
+    } catch (error) {
+        // ncu might throw errors for various reasons (e.g., no package file)
+        // We want to propagate this as an error message.
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error(`NCU execution error: ${errorMessage}`);
+        throw new Error(`NCU execution failed: ${errorMessage}`);
+    }
+    // ncu itself can't be interrupted, so drop its result if the call was cancelled meanwhile,
+    // before anything gets written
+    signal?.throwIfAborted();
+    return result;
+  }
+
+  // Files a write to these manifests can affect: the manifests themselves and the project's lockfile
+  private affectedFiles(packageFiles: string[]): string[] {
+    const files = new Set(packageFiles);
+    for (const packageFile of packageFiles) {
+      const lockfile = this.lockfileInspector.findLockfile(path.dirname(packageFile));
+      if (lockfile) files.add(lockfile.file);
+    }
+    return [...files];
+  }
+
+  // Write new ranges into package.json files, or with dryRun only return the diff. Real writes
+  // snapshot the manifests and the lockfile first so undo_last_change can restore them.
+  writeUpgrades(
+    tool: string,
+    projectDir: string,
+    edits: Array<{ packageFile: string; upgrades: Record<string, string> }>,
+    dryRun?: boolean,
+  ): { applied: Record<string, Record<string, string>>; diff: string; changeId?: string } {
+    const changed = edits.map(({ packageFile, upgrades }) => {
+      const before = fs.readFileSync(packageFile, 'utf8');
+      return { packageFile, before, ...rewriteDependencyRanges(before, upgrades) };
+    }).filter(edit => Object.keys(edit.applied).length > 0);
+    const diff = changed.map(edit => unifiedDiff(edit.packageFile, edit.before, edit.text, projectDir)).join('');
+
+    let changeId: string | undefined;
+    if (!dryRun && changed.length > 0) {
+      for (const edit of changed) NpmCheckUpdatesHandler.assertWritable(edit.packageFile);
+      const numRanges = changed.reduce((sum, edit) => sum + Object.keys(edit.applied).length, 0);
+      const description = `Updated ${numRanges} ranges in ${changed.map(edit => path.relative(projectDir, edit.packageFile)).join(', ')}`;
+      changeId = this.changeJournal.snapshot(tool, description, projectDir, this.affectedFiles(changed.map(edit => edit.packageFile))).id;
+      for (const edit of changed) fs.writeFileSync(edit.packageFile, edit.text);
+    }
+    return { applied: Object.fromEntries(changed.map(edit => [edit.packageFile, edit.applied])), diff, changeId };
+  }
+
+  // Shared by the tools whose `upgrade` flag writes ncu's result: report only, preview or write
+  private applyResult(tool: string, packageFile: string, upgrades: Record<string, string>, options: { upgrade?: boolean; dryRun?: boolean }): any {
+    if (!options.upgrade && !options.dryRun) return { upgrades };
+    const { diff, changeId } = this.writeUpgrades(tool, path.dirname(packageFile), [{ packageFile, upgrades }], options.dryRun);
+    return changeId ? { upgrades, diff, changeId } : { upgrades, diff };
+  }
+
+  private static describeLimits(limits: UpgradeLimits): string {
+    const label = (item: { name: string; member?: string }) => `${item.member ? `${item.member}: ` : ''}${item.name}`;
+    let text = '';
+    const decisions = limits.policyDecisions ?? [];
+    if (decisions.length > 0) {
+      const items = decisions.map(decision => `${label(decision)} ${decision.cappedTo ? `${decision.target} → ${decision.cappedTo}` : decision.action === 'blocked' ? `${decision.target} blocked` : decision.action}`
+        + ` (${decision.rule}${decision.action === 'capped' || decision.action === 'blocked' ? `: ${decision.reason}` : ''})`);
+      const files = [...new Set(decisions.map(decision => path.basename(decision.file)))].join(', ');
+      text += ` The policy in ${files} held back ${decisions.length} upgrades: ${items.join(', ')}.`;
+    }
+    const capped = limits.enginesCapped ?? [];
+    if (capped.length > 0) {
+      const items = capped.map(cap => `${label(cap)} ${cap.target} → ${cap.cappedTo ?? 'not upgraded'}`);
+      const projects = [...new Set(capped.map(cap => cap.project))].join(', ');
+      text += ` Held back ${capped.length} upgrades whose targets need a newer Node than ${projects}: ${items.join(', ')}.`;
+    }
+    return text;
+  }
+
+  private static describeWrite(data: { changeId?: string }, dryRun?: boolean): string {
+    if (dryRun) return ' Nothing was written; the diff shows the package.json changes.';
+    return data.changeId ? ` Previous files saved as change ${data.changeId} (undo with undo_last_change).` : '';
+  }
+
+  // An explicit package manager still installs in the detected root directory
+  private static packageManagerFor(projectDir: string, requested?: string): DetectedPackageManager {
+    const detected = detectPackageManager(projectDir);
+    const parsed = InstallPackageManagerEnum.safeParse(requested);
+    if (!parsed.success) return detected;
+    return { name: parsed.data, version: parsed.data === detected.name ? detected.version : null, source: 'argument', dir: detected.dir };
+  }
+
+  private static describeDetection(manager: DetectedPackageManager): string {
+    switch (manager.source) {
+      case 'argument': return `${manager.name} as requested`;
+      case 'packageManager': return `${manager.name}@${manager.version} from the packageManager field`;
+      case 'lockfile': return `${manager.name} from its lockfile`;
+      case 'default': return 'npm, as there is no lockfile or packageManager field';
+    }
+  }
+
+  private static describeInstall(install: InstallResult): string {
+    const changes = install.lockfileChanges;
+    let text = ` Installed with ${install.command} in ${install.directory}.`;
+    if (changes === null) text += ' The lockfile format is not readable here, so its changes are not listed.';
+    else if (changes) {
+      const counts = [
+        ...(changes.added.length ? [`${changes.added.length} added`] : []),
+        ...(changes.removed.length ? [`${changes.removed.length} removed`] : []),
+        ...(changes.updated.length ? [`${changes.updated.length} updated`] : []),
+      ];
+      text += changes.created ? ` Created ${path.basename(changes.file)} (${changes.added.length} locked versions).`
+        : counts.length ? ` ${path.basename(changes.file)}: ${counts.join(', ')}.` : ` ${path.basename(changes.file)} is unchanged.`;
+    }
+    return text + (install.changeId ? ` The lockfile change can be undone as ${install.changeId}.` : '');
+  }
+
+  // Locked versions by package name, or null when the lockfile can't be parsed
+  private lockedVersions(lockfile: string): Map<string, Set<string>> | null {
+    try {
+      const data = this.lockfileInspector.read(path.dirname(lockfile));
+      if (data.path !== lockfile) return null; // a format LockfileInspector doesn't read, such as bun's
+      const versions = new Map<string, Set<string>>();
+      for (const pkg of Object.values(data.packages)) {
+        if (!pkg.name || !pkg.version) continue;
+        if (!versions.has(pkg.name)) versions.set(pkg.name, new Set());
+        versions.get(pkg.name)!.add(pkg.version);
+      }
+      return versions;
+    } catch (error) {
+      logger.debug(`Could not read ${lockfile}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  private static lockfileChanges(file: string, before: Map<string, Set<string>> | null, after: Map<string, Set<string>>): z.infer<typeof LockfileChangesSchema> {
+    const changes = { file, created: before === null, added: [] as string[], removed: [] as string[], updated: [] as Array<{ name: string; from: string[]; to: string[] }> };
+    const sorted = (versions: Set<string>) => semver.sort([...versions].filter(version => semver.valid(version))).concat([...versions].filter(version => !semver.valid(version)));
+    for (const [name, versions] of after) {
+      const previous = before?.get(name);
+      if (!previous) changes.added.push(...sorted(versions).map(version => `${name}@${version}`));
+      else if ([...versions].some(version => !previous.has(version)) || [...previous].some(version => !versions.has(version))) {
+        changes.updated.push({ name, from: sorted(previous), to: sorted(versions) });
+      }
+    }
+    for (const [name, versions] of before ?? []) {
+      if (!after.has(name)) changes.removed.push(...sorted(versions).map(version => `${name}@${version}`));
+    }
+    return changes;
+  }
+
+  // Run an install, streaming its output as progress from progressAt towards progressAt + 1. The
+  // lockfile is snapshotted first and put back if the install fails or is cancelled.
+  private async runInstall(manager: DetectedPackageManager, command: string[], control: ToolControl, progressAt = 0, progressTotal = progressAt + 1): Promise<InstallResult> {
+    // the directory comes from detection, so check it like any path a tool call names
+    sandboxPath(manager.dir, 'Install directory');
+    const lockfile = sandboxPath(packageManagerLockfile(manager), 'Lockfile');
+    const existed = fs.existsSync(lockfile);
+    const before = existed ? this.lockedVersions(lockfile) : null;
+    const commandLine = command.join(' ');
+    const change = this.changeJournal.snapshot('install_dependencies', `${commandLine} in ${manager.dir}`, manager.dir, [lockfile]);
+
+    let lines = 0;
+    let reportedAt = 0;
+    control.progress?.(progressAt, progressTotal, `Running ${commandLine}`);
+    let output: string;
+    try {
+      output = await runCommand(command, manager.dir, control.signal, line => {
+        lines++;
+        if (Date.now() - reportedAt < NpmCheckUpdatesHandler.PROGRESS_INTERVAL_MS) return;
+        reportedAt = Date.now();
+        control.progress?.(progressAt + lines / (lines + 1), progressTotal, line);
+      });
+    } catch (error) {
+      this.changeJournal.rollback(change);
+      throw error;
+    }
+
+    let lockfileChanges: z.infer<typeof LockfileChangesSchema> | null | undefined;
+    if (fs.existsSync(lockfile)) {
+      const after = this.lockedVersions(lockfile);
+      // an existing lockfile that can't be parsed stays unlisted instead of counting as created
+      lockfileChanges = after && (before || !existed) ? NpmCheckUpdatesHandler.lockfileChanges(lockfile, before, after) : null;
+    }
+    const changed = this.changeJournal.diff(change) !== '';
+    if (!changed) this.changeJournal.discard(change.id);
+    return {
+      packageManager: manager.name,
+      detectedFrom: manager.source,
+      version: manager.version,
+      command: commandLine,
+      directory: manager.dir,
+      ...(lockfileChanges !== undefined ? { lockfileChanges } : {}),
+      output: output.trim(),
+      ...(changed ? { changeId: change.id } : {}),
+    };
+  }
+
+  // install: true on the upgrade tools, after a write. A failed or cancelled install also puts
+  // back package.json and the lockfile as they were before the write.
+  private async installAfterWrite(packageFile: string, changeId: string | undefined, packageManager: string | undefined, control: ToolControl, progressAt?: number, progressTotal?: number): Promise<InstallResult | undefined> {
+    if (!changeId) return undefined; // nothing was written
+    const manager = NpmCheckUpdatesHandler.packageManagerFor(path.dirname(packageFile), packageManager);
+    const rollback = () => {
+      const record = this.changeJournal.read(changeId);
+      if (record) this.changeJournal.rollback(record);
+    };
+    // a workspace member installs from its root, whose own policy covers the lockfile there
+    try {
+      NpmCheckUpdatesHandler.assertWritable(packageManagerLockfile(manager), 'upgrade without install');
+    } catch (error) {
+      rollback();
+      throw new Error(`${error instanceof Error ? error.message : String(error)}\n`
+        + `Nothing was installed, so ${path.basename(packageFile)} was restored to its state before the upgrade.`);
+    }
+    try {
+      return await this.runInstall(manager, installCommand(manager), control, progressAt, progressTotal);
+    } catch (error) {
+      rollback();
+      if (control.signal?.aborted) throw error;
+      throw new Error(`${error instanceof Error ? error.message : String(error)}\n`
+        + `The install failed, so ${path.basename(packageFile)} and the lockfile were restored to their state before the upgrade.`);
+    }
+  }
+
+  // Run ncu once per selected workspace member and collect the per-package results
+  private async runForWorkspace(
+    options: { packagePath?: string; workspaceMembers?: string[]; respectEngines?: boolean },
+    buildOptions: (packageFile: string) => any,
+    control: ToolControl,
+  ): Promise<{ members: WorkspaceMember[]; packages: Record<string, { path: string; updates: Record<string, string> }>; limits: UpgradeLimits }> {
+    const rootPackageFile = this.resolvePackagePath(options.packagePath);
+    const members = selectWorkspaceMembers(findWorkspaceMembers(rootPackageFile), options.workspaceMembers);
+    const packages: Record<string, { path: string; updates: Record<string, string> }> = {};
+    const limits: UpgradeLimits = {};
+    for (const [index, member] of members.entries()) {
+      logger.info(`Running ncu for workspace member ${member.name} (${member.relativeDir})`);
+      control.progress?.(index, members.length, `Checking ${member.name}`);
+      const { upgrades, limits: memberLimits } = await this.limitUpgrades(member.packageFile, await this.runNcu(buildOptions(member.packageFile), control.signal), options.respectEngines, control.signal);
+      packages[member.name] = { path: member.relativeDir, updates: upgrades };
+      if (memberLimits.policyDecisions) (limits.policyDecisions ??= []).push(...memberLimits.policyDecisions.map(decision => ({ ...decision, member: member.name })));
+      if (memberLimits.enginesCapped) (limits.enginesCapped ??= []).push(...memberLimits.enginesCapped.map(cap => ({ ...cap, member: member.name })));
+    }
+    control.progress?.(members.length, members.length, `Checked ${members.length} workspace packages`);
+    return { members, packages, limits };
+  }
+
+  private async checkWorkspaceUpdates(options: CheckUpdatesArgs, control: ToolControl): Promise<{ data: any; message: string }> {
+    const { members, packages: results, limits } = await this.runForWorkspace(options, packageFile => this.checkUpdatesOptions(packageFile, options), control);
+    const packages: Record<string, { path: string; updates: Record<string, string>; details: UpdateDetail[]; groups: Record<UpdateDetail['risk'], string[]> }> = {};
+    for (const member of members) {
+      packages[member.name] = { ...results[member.name], ...(await this.describeUpdates(member.packageFile, results[member.name].updates, control.signal)) };
+    }
+
+    // Combined view: every outdated dependency with its current range and target in each member
+    const combined: Record<string, Record<string, { current?: string; target: string }>> = {};
+    for (const member of members) {
+      const packageJson = fsExtra.readJsonSync(member.packageFile, { throws: false }) ?? {};
+      for (const [dep, target] of Object.entries(packages[member.name].updates)) {
+        const current = WORKSPACE_DEPENDENCY_SECTIONS.map(section => packageJson[section]?.[dep]).find(Boolean)
+          ?? packageJson.peerDependencies?.[dep];
+        (combined[dep] ??= {})[member.name] = { current, target };
+      }
+    }
+    const versionMismatches = findVersionMismatches(members);
+
+    const outdatedCount = Object.keys(combined).length;
+    const affectedMembers = Object.values(packages).filter(p => Object.keys(p.updates).length > 0).length;
+    const mismatchCount = Object.keys(versionMismatches).length;
+    return {
+      data: { packages, combined, versionMismatches, ...limits },
+      message: (outdatedCount > 0
+        ? `Found ${outdatedCount} outdated dependencies across ${affectedMembers} of ${members.length} workspace packages.`
+        : `All dependencies are up-to-date in ${members.length} workspace packages.`)
+        + (mismatchCount > 0 ? ` ${mismatchCount} dependencies are pinned to different versions in different packages.` : '')
+        + NpmCheckUpdatesHandler.describeLimits(limits)
+    };
+  }
+
+  // Classify each ncu upgrade by bump type and risk, using the lockfile for the installed version
+  // and the packument for publish dates, deprecation and engines
+  private async describeUpdates(packageFile: string, upgrades: Record<string, string>, signal?: AbortSignal): Promise<{ details: UpdateDetail[]; groups: Record<UpdateDetail['risk'], string[]> }> {
+    const projectDir = path.dirname(packageFile);
+    const packageJson = fsExtra.readJsonSync(packageFile, { throws: false }) ?? {};
+    const nodeRange = readProjectNodeRange(projectDir);
+    let lockfile: LockfileData | undefined;
+    try {
+      lockfile = this.lockfileInspector.findLockfile(projectDir) ? this.lockfileInspector.read(projectDir) : undefined;
+    } catch (error) {
+      logger.warn(`Ignoring unreadable lockfile: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const importer = lockfile?.importers[path.relative(path.dirname(lockfile.path), projectDir) || '.'];
+
+    const details = await Promise.all(Object.entries(upgrades).map(async ([name, target]): Promise<UpdateDetail> => {
+      const current: string = DEPENDENCY_TYPES.map(type => packageJson[type]?.[name]).find(Boolean) ?? '';
+      const lockedId = importer?.dependencies[name]?.id;
+      const lockedVersion = lockedId ? lockfile!.packages[lockedId]?.version : undefined;
+      const currentRange = LockfileInspector.semverRange(current);
+      const currentVersion = lockedVersion ?? (currentRange ? semver.minVersion(currentRange)?.version : undefined) ?? null;
+      const detail: UpdateDetail = {
+        name, current, currentVersion, target, targetVersion: null, bump: 'unknown', publishedAt: null, ageDays: null, deprecated: null,
+        engines: { node: null, project: nodeRange.range, projectSource: nodeRange.source, compatible: null },
+        risk: 'unknown', riskReasons: [],
+      };
+
+      let packument: any;
+      try {
+        ({ packument } = await this.npmSearcher.fetchPackument(name, packageFile, signal));
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        detail.riskReasons.push(`metadata unavailable: ${error instanceof Error ? error.message : String(error)}`);
+        return detail;
+      }
+      detail.targetVersion = NpmCheckUpdatesHandler.targetVersion(packument, target);
+      if (!detail.targetVersion) {
+        detail.riskReasons.push('target version not found in the registry');
+        return detail;
+      }
+
+      const manifest = packument.versions[detail.targetVersion];
+      const published = packument.time?.[detail.targetVersion];
+      detail.publishedAt = published ?? null;
+      detail.ageDays = published ? Math.floor((Date.now() - Date.parse(published)) / DAY_MS) : null;
+      detail.deprecated = manifest.deprecated || null;
+      detail.engines.node = manifest.engines?.node ?? null;
+      detail.engines.compatible = nodeRangeCompatible(nodeRange.range, manifest.engines?.node);
+      if (currentVersion && semver.valid(currentVersion)) {
+        const diff = semver.diff(currentVersion, detail.targetVersion);
+        detail.bump = !diff ? 'none' : diff.startsWith('pre') && diff !== 'prerelease' ? diff.slice(3) as UpdateDetail['bump'] : diff as UpdateDetail['bump'];
+        if (semver.prerelease(detail.targetVersion)) detail.bump = 'prerelease';
+      }
+
+      if (detail.bump === 'major') detail.riskReasons.push('major version bump');
+      if (detail.bump === 'prerelease') detail.riskReasons.push('prerelease target');
+      if (detail.deprecated) detail.riskReasons.push(`target is deprecated: ${detail.deprecated}`);
+      if (detail.engines.compatible === false) detail.riskReasons.push(`target requires node ${detail.engines.node}, project uses ${nodeRange.range}`);
+      const high = detail.riskReasons.length > 0;
+      if (detail.ageDays !== null && detail.ageDays < RECENT_RELEASE_DAYS) detail.riskReasons.push(`published ${detail.ageDays} days ago`);
+      if (detail.bump === 'minor') detail.riskReasons.push('minor version bump');
+      detail.risk = high ? 'high' : detail.riskReasons.length > 0 ? 'medium' : detail.bump === 'patch' || detail.bump === 'none' ? 'low' : 'unknown';
+      return detail;
+    }));
+
+    const groups: Record<UpdateDetail['risk'], string[]> = { low: [], medium: [], high: [], unknown: [] };
+    for (const detail of details) groups[detail.risk].push(detail.name);
+    return { details, groups };
+  }
+
+  // Lower each upgrade whose target needs a newer Node than the project runs on to the newest
+  // version that still supports it, or drop it when nothing newer than the current range does
+  private async capToEngines(packageFile: string, upgrades: Record<string, string>, signal?: AbortSignal): Promise<{ upgrades: Record<string, string>; capped: EnginesCap[] }> {
+    const nodeRange = readProjectNodeRange(path.dirname(packageFile));
+    const packageJson = fsExtra.readJsonSync(packageFile, { throws: false }) ?? {};
+    const result: Record<string, string> = {};
+    const capped: EnginesCap[] = [];
+    for (const [name, target] of Object.entries(upgrades)) {
+      result[name] = target;
+      let packument: any;
+      try {
+        ({ packument } = await this.npmSearcher.fetchPackument(name, packageFile, signal));
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        logger.warn(`Cannot check engines of ${name}: ${error instanceof Error ? error.message : String(error)}`);
+        continue;
+      }
+      const targetVersion = NpmCheckUpdatesHandler.targetVersion(packument, target);
+      const requires = targetVersion ? packument.versions[targetVersion]?.engines?.node : undefined;
+      if (!targetVersion || nodeRangeCompatible(nodeRange.range, requires) !== false) continue;
+
+      const current: string = DEPENDENCY_TYPES.map(type => packageJson[type]?.[name]).find(Boolean) ?? '';
+      const currentRange = LockfileInspector.semverRange(current);
+      const floor = currentRange ? semver.minVersion(currentRange)?.version : undefined;
+      const newest = newestNodeCompatible(packument, nodeRange.range, `<=${targetVersion}`);
+      const cappedTo = newest && (!floor || semver.gt(newest, floor)) ? rangeLike(target, newest) : null;
+      if (cappedTo && cappedTo !== current) result[name] = cappedTo;
+      else delete result[name];
+      capped.push({ name, target, targetVersion, requires, project: nodeRange.range, cappedTo: result[name] ?? null });
+    }
+    return { upgrades: result, capped };
+  }
+
+  // Hold back upgrades the project's policy does not allow. Ignored and frozen packages keep their
+  // ranges; targets beyond a rule's maxTarget or maxVersion, or younger than the minimum release
+  // age, are lowered to the newest version that is allowed, or dropped when none is newer
+  private async applyPolicy(packageFile: string, upgrades: Record<string, string>, signal?: AbortSignal): Promise<{ upgrades: Record<string, string>; decisions?: PolicyDecision[] }> {
+    const policy = NpmCheckUpdatesHandler.loadPolicy(path.dirname(packageFile));
+    if (!policy.file) return { upgrades };
+    const file = policy.file;
+    const packageJson = fsExtra.readJsonSync(packageFile, { throws: false }) ?? {};
+    const result: Record<string, string> = {};
+    const decisions: PolicyDecision[] = [];
+    for (const [name, target] of Object.entries(upgrades)) {
+      const [pattern, rule] = NpmCheckUpdatesHandler.ruleFor(policy, name) ?? [null, {} as UpdateRule];
+      const ruleName = `rules["${pattern}"]`;
+      if (rule.ignore || rule.frozen) {
+        decisions.push({ name, file, rule: ruleName, action: rule.ignore ? 'ignored' : 'frozen', target, cappedTo: null, reason: rule.ignore ? 'ignored by the policy' : 'frozen at its current range' });
+        continue;
+      }
+      const minAgeDays = rule.minReleaseAgeDays ?? policy.minReleaseAgeDays;
+      if (!rule.maxTarget && !rule.maxVersion && !minAgeDays) {
+        result[name] = target;
+        continue;
+      }
+
+      let packument: any;
+      try {
+        ({ packument } = await this.npmSearcher.fetchPackument(name, packageFile, signal));
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        decisions.push({ name, file, rule: pattern ? ruleName : 'minReleaseAgeDays', action: 'blocked', target, cappedTo: null, reason: `cannot check the policy: ${error instanceof Error ? error.message : String(error)}` });
+        continue;
+      }
+      const current: string = DEPENDENCY_TYPES.map(type => packageJson[type]?.[name]).find(Boolean) ?? '';
+      const currentRange = LockfileInspector.semverRange(current);
+      const floor = currentRange ? semver.minVersion(currentRange)?.version : undefined;
+      // What keeps a version out, as [rule, reason] pairs
+      const blockers = (version: string): Array<[string, string]> => {
+        const found: Array<[string, string]> = [];
+        if (floor && rule.maxTarget && rule.maxTarget !== 'major'
+          && (semver.major(version) !== semver.major(floor) || (rule.maxTarget === 'patch' && semver.minor(version) !== semver.minor(floor)))) {
+          found.push([ruleName, `maxTarget ${rule.maxTarget} from ${floor}`]);
+        }
+        if (rule.maxVersion && semver.gtr(version, rule.maxVersion)) found.push([ruleName, `maxVersion ${rule.maxVersion}`]);
+        if (minAgeDays) {
+          const published = packument.time?.[version];
+          const ageDays = published ? Math.floor((Date.now() - Date.parse(published)) / DAY_MS) : null;
+          if (ageDays === null || ageDays < minAgeDays) {
+            found.push([rule.minReleaseAgeDays !== undefined ? ruleName : 'minReleaseAgeDays',
+              `${ageDays === null ? 'publish date unknown' : `published ${ageDays} days ago`}, minimum age ${minAgeDays} days`]);
+          }
+        }
+        return found;
+      };
+      const targetVersion = NpmCheckUpdatesHandler.targetVersion(packument, target);
+      const reasons = targetVersion ? blockers(targetVersion) : [];
+      if (!targetVersion || reasons.length === 0) {
+        result[name] = target;
+        continue;
+      }
+      const fallback = semver.rsort(Object.keys(packument.versions ?? {}).filter(version => semver.valid(version))).find(version =>
+        semver.lte(version, targetVersion) && (!floor || semver.gt(version, floor))
+        && (!semver.prerelease(version) || semver.prerelease(targetVersion))
+        && !packument.versions[version].deprecated && blockers(version).length === 0);
+      const cappedTo = fallback ? rangeLike(target, fallback) : null;
+      if (cappedTo && cappedTo !== current) result[name] = cappedTo;
+      decisions.push({
+        name,
+        file,
+        rule: [...new Set(reasons.map(([blocking]) => blocking))].join(', '),
+        action: result[name] ? 'capped' : 'blocked',
+        target,
+        cappedTo: result[name] ?? null,
+        reason: reasons.map(([, reason]) => reason).join('; '),
+      });
+    }
+    return { upgrades: result, decisions };
+  }
+
+  // The project policy, then the respectEngines cap, applied to one package file's ncu result
+  private async limitUpgrades(packageFile: string, upgrades: Record<string, string>, respectEngines?: boolean, signal?: AbortSignal): Promise<{ upgrades: Record<string, string>; limits: UpgradeLimits }> {
+    const limits: UpgradeLimits = {};
+    const policy = await this.applyPolicy(packageFile, upgrades, signal);
+    if (policy.decisions) limits.policyDecisions = policy.decisions;
+    if (!respectEngines) return { upgrades: policy.upgrades, limits };
+    const { upgrades: capped, capped: enginesCapped } = await this.capToEngines(packageFile, policy.upgrades, signal);
+    limits.enginesCapped = enginesCapped;
+    return { upgrades: capped, limits };
+  }
+
+  // The version an ncu target range stands for: its lower bound when published, else the highest match
+  private static targetVersion(packument: any, target: string): string | null {
+    const versions = Object.keys(packument.versions ?? {});
+    const targetRange = LockfileInspector.semverRange(target);
+    const minTarget = targetRange ? semver.minVersion(targetRange)?.version : undefined;
+    return (minTarget && versions.includes(minTarget) ? minTarget : targetRange ? semver.maxSatisfying(versions, targetRange) : null) ?? null;
+  }
+
+  // The `updates` section of the nearest policy file; without one, no rules apply
+  private static loadPolicy(projectDir: string): UpdatePolicy {
+    const found = readProjectConfig(projectDir);
+    if (!found?.config.updates) return { file: null, rules: [], minReleaseAgeDays: 0, writeProtected: false };
+    const parsed = UpdatePolicyConfigSchema.safeParse(found.config.updates);
+    if (!parsed.success) {
+      throw new Error(`Invalid "updates" section in ${found.file}: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+    }
+    return {
+      file: found.file,
+      rules: Object.entries(parsed.data.rules ?? {}),
+      minReleaseAgeDays: parsed.data.minReleaseAgeDays ?? 0,
+      writeProtected: parsed.data.writeProtected ?? false,
+    };
+  }
+
+  // A package's own rule wins over globs; among globs the first one listed applies
+  private static ruleFor(policy: UpdatePolicy, name: string): [string, UpdateRule] | undefined {
+    return policy.rules.find(([pattern]) => pattern === name)
+      ?? policy.rules.find(([pattern]) => pattern.includes('*') && new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`).test(name));
+  }
+
+  static assertWritable(packageFile: string, hint = 'use dryRun to preview the changes'): void {
+    const policy = NpmCheckUpdatesHandler.loadPolicy(path.dirname(packageFile));
+    if (policy.writeProtected) {
+      throw new Error(`${packageFile} is write-protected by ${policy.file} (updates.writeProtected); ${hint}`);
+    }
+  }
+
+  // "3 major, 2 minor, 4 patch; risk: 4 low, 2 medium, 3 high"
+  private static summarizeDetails(details: UpdateDetail[], groups: Record<UpdateDetail['risk'], string[]>): string {
+    const count = (items: string[]) => items.length;
+    const bumps = (['major', 'minor', 'patch', 'prerelease', 'none', 'unknown'] as const)
+      .map(bump => [bump, details.filter(d => d.bump === bump).length] as const)
+      .filter(([, n]) => n > 0)
+      .map(([bump, n]) => `${n} ${bump === 'none' ? 'range-only' : bump}`);
+    const risks = (['low', 'medium', 'high', 'unknown'] as const)
+      .filter(risk => count(groups[risk]) > 0)
+      .map(risk => `${count(groups[risk])} ${risk}`);
+    return `${bumps.join(', ')}; risk: ${risks.join(', ')}`;
+  }
+
+  private checkUpdatesOptions(packageFile: string, options: CheckUpdatesArgs): any {
+    const ncuBaseOptions: any = { packageFile };
+    if (options.filter) ncuBaseOptions.filter = options.filter;
+    if (options.reject) ncuBaseOptions.reject = options.reject;
+    if (options.target) ncuBaseOptions.target = options.target;
+    if (options.peer) ncuBaseOptions.peer = true;
+    if (options.minimal) ncuBaseOptions.minimal = true;
+    if (options.packageManager) ncuBaseOptions.packageManager = options.packageManager;
+    return ncuBaseOptions;
+  }
+
+  private upgradePackagesOptions(packageFile: string, options: UpgradePackagesArgs): any {
+    const ncuBaseOptions: any = { packageFile };
+    if (options.upgradeType) ncuBaseOptions.target = options.upgradeType;
+    // ncu's interactive mode is not compatible with MCP stdio, so it's omitted.
+    if (options.peer) ncuBaseOptions.peer = true;
+    if (options.minimal) ncuBaseOptions.minimal = true;
+    if (options.packageManager) ncuBaseOptions.packageManager = options.packageManager;
+    return ncuBaseOptions;
+  }
+
+  // Methods now accept Zod-inferred types and throw errors on failure
+  async checkUpdates(options: CheckUpdatesArgs, control: ToolControl = {}): Promise<{ data: any; message: string }> {
+    if (options.workspaces || options.workspaceMembers?.length) return this.checkWorkspaceUpdates(options, control);
+    const packageFile = this.resolvePackagePath(options.packagePath);
+    const ncuBaseOptions = this.checkUpdatesOptions(packageFile, options);
+    
+    const { upgrades: result, limits } = await this.limitUpgrades(packageFile, await this.runNcu(ncuBaseOptions, control.signal), options.respectEngines, control.signal);
+    const numUpdates = Object.keys(result).length;
+    const { details, groups } = await this.describeUpdates(packageFile, result, control.signal);
+    return {
+      data: { upgrades: result, updates: details, groups, ...limits },
+      message: (numUpdates > 0
+        ? `Found ${numUpdates} outdated dependencies (${NpmCheckUpdatesHandler.summarizeDetails(details, groups)}).`
+        : "All dependencies are up-to-date.") + NpmCheckUpdatesHandler.describeLimits(limits)
+    };
+  }
+
+  async upgradePackages(options: UpgradePackagesArgs, control: ToolControl = {}): Promise<{ data: any; message: string }> {
+    if (options.workspaces || options.workspaceMembers?.length) {
+      const { members, packages, limits } = await this.runForWorkspace(options, packageFile => this.upgradePackagesOptions(packageFile, options), control);
+      const rootDir = path.dirname(this.resolvePackagePath(options.packagePath));
+      const { applied, diff, changeId } = this.writeUpgrades(
+        'upgrade_packages',
+        rootDir,
+        members.map(member => ({ packageFile: member.packageFile, upgrades: packages[member.name].updates })),
+        options.dryRun,
+      );
+      const numUpgraded = Object.values(applied).reduce((sum, ranges) => sum + Object.keys(ranges).length, 0);
+      const data: any = { packages, ...limits, diff, ...(changeId ? { changeId } : {}) };
+      const install = options.install ? await this.installAfterWrite(this.resolvePackagePath(options.packagePath), changeId, options.packageManager, control, members.length) : undefined;
+      if (install) data.install = install;
+      return {
+        data,
+        message: (numUpgraded > 0
+          ? `${options.dryRun ? 'Would upgrade' : 'Upgraded'} ${numUpgraded} dependencies across ${members.length} workspace packages.`
+          : `No dependencies needed upgrading in ${members.length} workspace packages.`)
+          + NpmCheckUpdatesHandler.describeLimits(limits) + NpmCheckUpdatesHandler.describeWrite(data, options.dryRun)
+          + (install ? NpmCheckUpdatesHandler.describeInstall(install) : '')
+      };
+    }
+    const packageFile = this.resolvePackagePath(options.packagePath);
+    const ncuBaseOptions = this.upgradePackagesOptions(packageFile, options);
+    
+    const steps = options.install && !options.dryRun ? 3 : 2;
+    control.progress?.(0, steps, 'Checking for updates');
+    const { upgrades: result, limits } = await this.limitUpgrades(packageFile, await this.runNcu(ncuBaseOptions, control.signal), options.respectEngines, control.signal);
+    const numUpgraded = Object.keys(result).length;
+    control.progress?.(1, steps, `${options.dryRun ? 'Previewing' : 'Writing'} ${numUpgraded} upgrades`);
+    const data = { ...this.applyResult('upgrade_packages', packageFile, result, { upgrade: true, dryRun: options.dryRun }), ...limits };
+    const install = options.install ? await this.installAfterWrite(packageFile, data.changeId, options.packageManager, control, 2, steps) : undefined;
+    if (install) data.install = install;
+    control.progress?.(steps, steps, 'Done');
+    return {
+      data,
+      message: (numUpgraded > 0 ? `${options.dryRun ? 'Would upgrade' : 'Upgraded'} ${numUpgraded} dependencies.` : "No dependencies needed upgrading or were upgraded.")
+        + NpmCheckUpdatesHandler.describeLimits(limits) + NpmCheckUpdatesHandler.describeWrite(data, options.dryRun)
+        + (install ? NpmCheckUpdatesHandler.describeInstall(install) : '')
+    };
+  }
+
+  async filterUpdates(options: FilterUpdatesArgs, control: ToolControl = {}): Promise<{ data: any; message: string }> {
+    const packageFile = this.resolvePackagePath(options.packagePath);
+    const ncuBaseOptions: any = { packageFile, filter: options.filter };
+    if (options.minimal) ncuBaseOptions.minimal = true;
+    if (options.packageManager) ncuBaseOptions.packageManager = options.packageManager;
+
+    const { upgrades: result, limits } = await this.limitUpgrades(packageFile, await this.runNcu(ncuBaseOptions, control.signal), false, control.signal);
+    const data = { ...this.applyResult('filter_updates', packageFile, result, options), ...limits };
+    const install = options.install && options.upgrade ? await this.installAfterWrite(packageFile, data.changeId, options.packageManager, control) : undefined;
+    if (install) data.install = install;
+    const numFound = Object.keys(result).length;
+    return {
+      data,
+      message: (numFound > 0
+        ? `Found ${numFound} filtered dependencies ${options.upgrade && !options.dryRun ? 'and upgraded them.' : 'with available updates.'}${NpmCheckUpdatesHandler.describeWrite(data, options.dryRun)}` 
+        : "No updates found for the filtered dependencies.") + NpmCheckUpdatesHandler.describeLimits(limits)
+        + (install ? NpmCheckUpdatesHandler.describeInstall(install) : '')
+    };
+  }
+
+  async resolveConflicts(options: ResolveConflictsArgs, control: ToolControl = {}): Promise<{ data: any; message: string }> {
+    const packageFile = this.resolvePackagePath(options.packagePath);
+    const ncuBaseOptions: any = { packageFile, peer: true };
+    if (options.minimal) ncuBaseOptions.minimal = true;
+    if (options.packageManager) ncuBaseOptions.packageManager = options.packageManager;
+
+    const { upgrades: result, limits } = await this.limitUpgrades(packageFile, await this.runNcu(ncuBaseOptions, control.signal), false, control.signal);
+    const data = { ...this.applyResult('resolve_conflicts', packageFile, result, options), ...limits };
+    const install = options.install && options.upgrade ? await this.installAfterWrite(packageFile, data.changeId, options.packageManager, control) : undefined;
+    if (install) data.install = install;
+    const numResolved = Object.keys(result).length;
+    return {
+      data,
+      message: (numResolved > 0
+        ? `Attempted to resolve conflicts for ${numResolved} dependencies using the 'peer' strategy${options.upgrade && !options.dryRun ? ' and applied changes.' : '.'}${NpmCheckUpdatesHandler.describeWrite(data, options.dryRun)}`
+        : "No conflicts found or resolved based on peer strategy.") + NpmCheckUpdatesHandler.describeLimits(limits)
+        + (install ? NpmCheckUpdatesHandler.describeInstall(install) : '')
+    };
+  }
+
+  async setVersionConstraints(options: SetVersionConstraintsArgs, control: ToolControl = {}): Promise<{ data: any; message: string }> {
+    const packageFile = this.resolvePackagePath(options.packagePath);
+    const ncuBaseOptions: any = { packageFile, target: options.target };
+    if (options.removeRange) ncuBaseOptions.removeRange = true;
+    if (options.minimal) ncuBaseOptions.minimal = true;
+    if (options.packageManager) ncuBaseOptions.packageManager = options.packageManager;
+    
+    const { upgrades: result, limits } = await this.limitUpgrades(packageFile, await this.runNcu(ncuBaseOptions, control.signal), false, control.signal);
+    const data = { ...this.applyResult('set_version_constraints', packageFile, result, options), ...limits };
+    const install = options.install && options.upgrade ? await this.installAfterWrite(packageFile, data.changeId, options.packageManager, control) : undefined;
+    if (install) data.install = install;
+    const numChanged = Object.keys(result).length;
+    return {
+      data,
+      message: (numChanged > 0
+        ? `Applied version constraints to ${numChanged} dependencies ${options.upgrade && !options.dryRun ? 'and updated package.json.' : ' (dry run).'}${NpmCheckUpdatesHandler.describeWrite(data, options.dryRun)}`
+        : "No dependencies required changes based on the version constraints.") + NpmCheckUpdatesHandler.describeLimits(limits)
+        + (install ? NpmCheckUpdatesHandler.describeInstall(install) : '')
+    };
+  }
+
+  // Install the project's dependencies with its own package manager and report what the install
+  // changed in the lockfile
+  async installDependencies(options: InstallDependenciesArgs, control: ToolControl = {}): Promise<{ data: any; message: string }> {
+    const packageFile = this.resolvePackagePath(options.packagePath);
+    const manager = NpmCheckUpdatesHandler.packageManagerFor(path.dirname(packageFile), options.packageManager);
+    const command = installCommand(manager, options);
+    if (options.dryRun) {
+      return {
+        data: { packageManager: manager.name, detectedFrom: manager.source, version: manager.version, command: command.join(' '), directory: manager.dir },
+        message: `Would run ${command.join(' ')} in ${manager.dir} (${NpmCheckUpdatesHandler.describeDetection(manager)}).`
+      };
+    }
+    // a frozen install leaves the lockfile alone. The lockfile may be a workspace root's, so its
+    // policy counts as well as the member's.
+    if (!options.frozenLockfile) {
+      NpmCheckUpdatesHandler.assertWritable(packageFile);
+      NpmCheckUpdatesHandler.assertWritable(packageManagerLockfile(manager));
+    }
+    const result = await this.runInstall(manager, command, control);
+    control.progress?.(1, 1, `Finished ${result.command}`);
+    return {
+      data: result,
+      message: `Using ${NpmCheckUpdatesHandler.describeDetection(manager)}.` + NpmCheckUpdatesHandler.describeInstall(result)
+    };
+  }
+
+  // Custom doctor commands run only when listed with --doctor-command or confirmed by the user
+  private async approveCommand(option: string, command: string, projectDir: string, control: ToolControl): Promise<void> {
+    const words = splitCommand(command).join(' ');
+    if (this.doctorCommands.some(allowed => splitCommand(allowed).join(' ') === words)) return;
+    let confirmed: boolean;
+    try {
+      if (!control.confirm) throw new Error('no way to ask the user');
+      confirmed = await control.confirm(`run_doctor wants to run "${command}" (${option}) in ${projectDir}, once before and once after each upgrade. Allow it?`);
+    } catch (error) {
+      if (control.signal?.aborted) throw error;
+      throw new McpError(ErrorCode.InvalidParams,
+        `${option} "${command}" is not an allowed doctor command and could not be confirmed (${error instanceof Error ? error.message : String(error)}). Allow it with --doctor-command`);
+    }
+    if (!confirmed) throw new McpError(ErrorCode.InvalidParams, `${option} "${command}" was declined by the user`);
+  }
+
+  // Doctor mode: install and test each upgrade on its own, keeping the ones that pass. This is
+  // ncu's doctor algorithm run here, so every step reports progress and honours cancellation;
+  // a cancelled or failed run puts package.json and the lockfile back as they were.
+  async runDoctor(options: RunDoctorArgs, control: ToolControl = {}): Promise<{ data: any; message: string }> {
+    const { signal, progress } = control;
+    const packageFile = this.resolvePackagePath(options.packagePath);
+    const projectDir = path.dirname(packageFile);
+    const checkOptions: any = { packageFile };
+    if (options.packageManager) checkOptions.packageManager = options.packageManager;
+    const { upgrades, limits } = await this.limitUpgrades(packageFile, await this.runNcu(checkOptions, signal), false, signal);
+    const names = Object.keys(upgrades);
+    if (options.dryRun) {
+      const { diff } = this.writeUpgrades('run_doctor', projectDir, [{ packageFile, upgrades }], true);
+      return {
+        data: { upgrades, diff, ...limits },
+        message: (names.length > 0
+          ? `Doctor mode would try ${names.length} upgrades, running install and tests after each and reverting the ones that break.`
+            + ` Nothing was written; the install step would also regenerate the lockfile.`
+          : "All dependencies are up-to-date; doctor mode has nothing to try.") + NpmCheckUpdatesHandler.describeLimits(limits)
+      };
+    }
+    if (names.length === 0) {
+      return { data: { upgrades: {}, ...limits }, message: "All dependencies are up-to-date; doctor mode has nothing to try." + NpmCheckUpdatesHandler.describeLimits(limits) };
+    }
+    NpmCheckUpdatesHandler.assertWritable(packageFile);
+
+    const original = fs.readFileSync(packageFile, 'utf8');
+    if (!options.doctorTest && !JSON.parse(original).scripts?.test) {
+      throw new Error(`Doctor mode needs a "test" script in ${packageFile} or a doctorTest command`);
+    }
+    const manager = NpmCheckUpdatesHandler.packageManagerFor(projectDir, options.packageManager);
+    if (options.doctorInstall) await this.approveCommand('doctorInstall', options.doctorInstall, projectDir, control);
+    if (options.doctorTest) await this.approveCommand('doctorTest', options.doctorTest, projectDir, control);
+    const install = options.doctorInstall ? splitCommand(options.doctorInstall) : installCommand(manager);
+    const test = options.doctorTest ? splitCommand(options.doctorTest) : [manager.name, 'run', 'test'];
+    const lockfile = this.lockfileInspector.findLockfile(projectDir)?.file;
+    const readLockfile = () => lockfile && fs.existsSync(lockfile) ? fs.readFileSync(lockfile, 'utf8') : undefined;
+    const total = names.length + 1;
+
+    const change = this.changeJournal.snapshot('run_doctor', `Doctor mode upgrades of ${names.length} dependencies`, projectDir, this.affectedFiles([packageFile]));
+    const outcomes: Record<string, true | string> = {};
+    try {
+      progress?.(0, total, 'Installing and testing the current dependencies');
+      await runCommand(install, projectDir, signal);
+      try {
+        await runCommand(test, projectDir, signal);
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        throw new Error(`Tests fail before any upgrade, so doctor mode can't tell which upgrades break them. ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      let accepted = original;
+      let acceptedLockfile = readLockfile();
+      let inSync = true; // whether node_modules matches the accepted files
+      for (const [index, name] of names.entries()) {
+        progress?.(index + 1, total, `Trying ${name} ${upgrades[name]}`);
+        const candidate = rewriteDependencyRanges(accepted, { [name]: upgrades[name] }).text;
+        fs.writeFileSync(packageFile, candidate);
+        try {
+          await runCommand(install, projectDir, signal);
+          await runCommand(test, projectDir, signal);
+          accepted = candidate;
+          acceptedLockfile = readLockfile();
+          outcomes[name] = true;
+          inSync = true;
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          logger.info(`Doctor mode: ${name} ${upgrades[name]} breaks install or tests, reverting it`);
+          outcomes[name] = error instanceof Error ? error.message : String(error);
+          fs.writeFileSync(packageFile, accepted);
+          if (lockfile && acceptedLockfile !== undefined) fs.writeFileSync(lockfile, acceptedLockfile);
+          else if (lockfile && fs.existsSync(lockfile)) fs.unlinkSync(lockfile);
+          inSync = false;
+        }
+      }
+      if (!inSync) {
+        progress?.(total, total, 'Reinstalling the accepted upgrades');
+        await runCommand(install, projectDir, signal);
+      }
+    } catch (error) {
+      this.changeJournal.rollback(change);
+      logger.warn(`Doctor mode stopped, package.json and the lockfile were restored; reinstall to sync node_modules`);
+      throw error;
+    }
+
+    const diff = this.changeJournal.diff(change);
+    if (!diff) this.changeJournal.discard(change.id);
+    const writeInfo = diff ? { diff, changeId: change.id } : {};
+    const workingUpgrades = Object.values(outcomes).filter(outcome => outcome === true).length;
+    return {
+      data: { upgrades: outcomes, ...writeInfo, ...limits },
+      message: `Doctor mode completed: ${workingUpgrades} working upgrades applied, ${names.length - workingUpgrades} breaking upgrades identified and reverted.`
+        + NpmCheckUpdatesHandler.describeLimits(limits) + NpmCheckUpdatesHandler.describeWrite(writeInfo)
+    };
+  }
+}
+
+type DependencyType = 'dependencies' | 'devDependencies' | 'optionalDependencies' | 'peerDependencies';
+const DEPENDENCY_TYPES: DependencyType[] = ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies'];
+
+// One installed copy of a package, normalized across lockfile formats
+interface LockedPackage {
+  id: string; // install path for npm, name@version (plus peer suffix) for pnpm and yarn
+  name: string;
+  version: string;
+  dependencies: Record<string, string>; // declared ranges; for pnpm only known once installed
+  resolvedDependencies: Record<string, string>; // dependency name -> id of the locked copy it resolves to
+  dev?: boolean;
+  optional?: boolean;
+  license?: string;
+  resolved?: string;
+}
+
+// The root project or a workspace member, keyed by its directory relative to the lockfile
+interface LockfileImporter {
+  path: string;
+  dependencies: Record<string, { range?: string; type: DependencyType; id?: string }>;
+}
+
+interface LockfileData {
+  type: 'npm' | 'pnpm' | 'yarn' | 'node_modules';
+  path: string;
+  lockfileVersion: string;
+  packages: Record<string, LockedPackage>;
+  importers: Record<string, LockfileImporter>;
+}
+
+// Parses package-lock.json / npm-shrinkwrap.json, pnpm-lock.yaml and yarn.lock (classic and berry)
+// into one dependency graph
+class LockfileInspector {
+  private static readonly LOCKFILES: Array<[string, Exclude<LockfileData['type'], 'node_modules'>]> = [
+    ['package-lock.json', 'npm'],
+    ['npm-shrinkwrap.json', 'npm'],
+    ['pnpm-lock.yaml', 'pnpm'],
+    ['yarn.lock', 'yarn'],
+  ];
+
+  // Find the lockfile for a project, walking up to the workspace root
+  findLockfile(projectDir: string): { file: string; type: Exclude<LockfileData['type'], 'node_modules'> } | undefined {
+    let dir = path.resolve(projectDir);
+    while (true) {
+      for (const [name, type] of LockfileInspector.LOCKFILES) {
+        const file = path.join(dir, name);
+        if (fs.existsSync(file)) return { file, type };
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir) return undefined;
+      dir = parent;
+    }
+  }
+
+  read(projectDir: string): LockfileData {
+    const found = this.findLockfile(projectDir);
+    if (!found) throw new Error(`No lockfile (package-lock.json, pnpm-lock.yaml or yarn.lock) found for ${projectDir}`);
+    logger.debug(`Reading ${found.type} lockfile ${found.file}`);
+    const text = fs.readFileSync(found.file, 'utf8');
+    try {
+      switch (found.type) {
+        case 'npm': return this.parseNpm(found.file, JSON.parse(text));
+        case 'pnpm': return this.parsePnpm(found.file, YAML.parse(text) ?? {});
+        case 'yarn': return this.parseYarn(found.file, text);
+      }
+    } catch (error) {
+      throw new Error(`Failed to parse ${found.file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // Installed packages from the lockfile or, when there is none (or when asked), from node_modules
+  readInstalled(projectDir: string, source: 'auto' | 'lockfile' | 'node_modules' = 'auto'): LockfileData {
+    if (source === 'node_modules' || (source === 'auto' && !this.findLockfile(projectDir))) {
+      return this.readNodeModules(projectDir);
+    }
+    return this.read(projectDir);
+  }
+
+  // Build the installed graph by resolving each dependency on disk the way Node does, starting
+  // from the project's declared dependencies. Works for nested (npm, yarn) and symlinked (pnpm) layouts.
+  readNodeModules(projectDir: string): LockfileData {
+    const root = path.resolve(projectDir);
+    if (!fs.existsSync(path.join(root, 'node_modules'))) {
+      throw new Error(`No node_modules directory found in ${root}; install dependencies first`);
+    }
+    const packages: Record<string, LockedPackage> = {};
+    const keyFor = (dir: string) => path.relative(root, dir).split(path.sep).join('/');
+
+    const resolveOnDisk = (fromDir: string, dep: string): string | undefined => {
+      let dir = fromDir;
+      while (true) {
+        const candidate = path.join(dir, 'node_modules', dep);
+        if (fs.existsSync(path.join(candidate, 'package.json'))) return fs.realpathSync(candidate);
+        const parent = path.dirname(dir);
+        if (parent === dir) return undefined;
+        dir = parent;
+      }
+    };
+
+    const queue: string[] = [];
+    const visit = (dir: string): string => {
+      const key = keyFor(dir);
+      if (!packages[key]) {
+        const packageJson = fsExtra.readJsonSync(path.join(dir, 'package.json'), { throws: false }) ?? {};
+        packages[key] = {
+          id: key,
+          name: packageJson.name ?? path.basename(dir),
+          version: packageJson.version ?? '0.0.0',
+          dependencies: { ...packageJson.dependencies, ...packageJson.optionalDependencies },
+          resolvedDependencies: {},
+          license: manifestLicense(packageJson),
+        };
+        queue.push(dir);
+      }
+      return key;
+    };
+
+    const importers: Record<string, LockfileImporter> = {};
+    for (const importerPath of LockfileInspector.workspaceDirs(root)) {
+      const importerDir = path.join(root, importerPath);
+      const dependencies = LockfileInspector.declaredDependencies(fsExtra.readJsonSync(path.join(importerDir, 'package.json'), { throws: false }));
+      for (const [dep, info] of Object.entries(dependencies)) {
+        const resolved = resolveOnDisk(importerDir, dep);
+        if (resolved) info.id = visit(resolved);
+      }
+      importers[importerPath] = { path: importerPath, dependencies };
+    }
+    while (queue.length > 0) {
+      const dir = queue.shift()!;
+      const pkg = packages[keyFor(dir)];
+      for (const dep of Object.keys(pkg.dependencies)) {
+        const resolved = resolveOnDisk(dir, dep);
+        if (resolved) pkg.resolvedDependencies[dep] = visit(resolved);
+      }
+    }
+
+    return { type: 'node_modules', path: path.join(root, 'node_modules'), lockfileVersion: '', packages, importers };
+  }
+
+  async inspect(args: InspectLockfileArgs): Promise<{ data: any; message: string }> {
+    const packageFile = path.resolve(process.cwd(), args.packagePath || 'package.json');
+    if (!fs.existsSync(packageFile)) throw new Error(`Package file not found: ${packageFile}`);
+    const packageJson = fsExtra.readJsonSync(packageFile);
+    const lockfile = this.read(path.dirname(packageFile));
+    const importerPath = path.relative(path.dirname(lockfile.path), path.dirname(packageFile)) || '.';
+    const importer = lockfile.importers[importerPath];
+
+    // Direct dependencies: declared range from package.json against the locked version
+    const direct: Array<Record<string, any>> = [];
+    for (const type of DEPENDENCY_TYPES) {
+      if (type === 'devDependencies' && args.includeDev === false) continue;
+      for (const [name, declared] of Object.entries<string>(packageJson[type] ?? {})) {
+        const locked = this.lockedDirectVersion(lockfile, importer, name);
+        const range = LockfileInspector.semverRange(declared);
+        let status: 'ok' | 'outOfRange' | 'missing' | 'unchecked';
+        if (!locked) status = type === 'peerDependencies' || type === 'optionalDependencies' ? 'unchecked' : 'missing';
+        else if (range === undefined) status = 'unchecked';
+        else status = semver.satisfies(locked, range, { includePrerelease: true }) ? 'ok' : 'outOfRange';
+        direct.push({ name, type, declared, locked: locked ?? null, status });
+      }
+    }
+
+    const duplicates = this.findDuplicates(lockfile);
+    const counts = this.countPackages(lockfile);
+    const drifted = direct.filter(d => d.status === 'outOfRange' || d.status === 'missing');
+    const dedupable = duplicates.filter(d => d.dedupable);
+
+    const reasons: string[] = [];
+    if (drifted.length) reasons.push(`${drifted.length} direct dependencies are missing from the lockfile or locked outside their declared range: ${drifted.map(d => d.name).join(', ')}`);
+    if (dedupable.length) reasons.push(`${dedupable.length} duplicated packages could be collapsed to a single version: ${dedupable.map(d => d.name).join(', ')}`);
+    const recommendations = {
+      reinstall: drifted.length > 0,
+      dedupe: dedupable.length > 0,
+      reasons,
+    };
+
+    return {
+      data: {
+        lockfile: { type: lockfile.type, path: lockfile.path, lockfileVersion: lockfile.lockfileVersion, importer: importerPath },
+        direct,
+        duplicates,
+        counts,
+        recommendations,
+      },
+      message: `Inspected ${lockfile.type} lockfile ${lockfile.path}: ${counts.total} packages (${counts.direct} direct, ${counts.transitive} transitive), `
+        + `${drifted.length} drifted direct dependencies, ${duplicates.length} duplicated packages.`
+        + (recommendations.reinstall ? ' A reinstall is recommended.' : '')
+        + (recommendations.dedupe ? ' A dedupe is recommended.' : '')
+    };
+  }
+
+  // Ids of packages reachable from the importers' dependencies of the given types
+  reachablePackages(lockfile: LockfileData, types: DependencyType[]): Set<string> {
+    const seen = new Set<string>();
+    const queue: string[] = [];
+    for (const importer of Object.values(lockfile.importers)) {
+      for (const { type, id } of Object.values(importer.dependencies)) {
+        if (id && types.includes(type) && !seen.has(id)) {
+          seen.add(id);
+          queue.push(id);
+        }
+      }
+    }
+    while (queue.length > 0) {
+      const pkg = lockfile.packages[queue.shift()!];
+      for (const id of Object.values(pkg?.resolvedDependencies ?? {})) {
+        if (!seen.has(id)) {
+          seen.add(id);
+          queue.push(id);
+        }
+      }
+    }
+    return seen;
+  }
+
+  private lockedDirectVersion(lockfile: LockfileData, importer: LockfileImporter | undefined, name: string): string | undefined {
+    const id = importer?.dependencies[name]?.id;
+    if (id && lockfile.packages[id]) return lockfile.packages[id].version;
+    return undefined;
+  }
+
+  // Packages locked at more than one version. A duplicate is dedupable when one of the locked
+  // versions satisfies every range that asks for the package; when a requester's range is not
+  // known (pnpm packages that aren't installed), there is no verdict.
+  private findDuplicates(lockfile: LockfileData): Array<{ name: string; versions: string[]; copies: number; requestedRanges: string[]; dedupable?: boolean; dedupeTo?: string }> {
+    const byName = new Map<string, { versions: Set<string>; copies: number }>();
+    const requested = new Map<string, Set<string>>();
+    const unknownRange = new Set<string>();
+    for (const pkg of Object.values(lockfile.packages)) {
+      const entry = byName.get(pkg.name) ?? { versions: new Set<string>(), copies: 0 };
+      entry.versions.add(pkg.version);
+      entry.copies++;
+      byName.set(pkg.name, entry);
+      for (const [dep, range] of Object.entries(pkg.dependencies)) {
+        if (!requested.has(dep)) requested.set(dep, new Set());
+        requested.get(dep)!.add(range);
+      }
+      for (const [dep, id] of Object.entries(pkg.resolvedDependencies)) {
+        if (pkg.dependencies[dep] === undefined) unknownRange.add(lockfile.packages[id]?.name ?? dep);
+      }
+    }
+    for (const importer of Object.values(lockfile.importers)) {
+      for (const [dep, { range, id }] of Object.entries(importer.dependencies)) {
+        if (!range) {
+          if (id) unknownRange.add(lockfile.packages[id]?.name ?? dep);
+          continue;
+        }
+        if (!requested.has(dep)) requested.set(dep, new Set());
+        requested.get(dep)!.add(range);
+      }
+    }
+
+    const duplicates: ReturnType<LockfileInspector['findDuplicates']> = [];
+    for (const [name, { versions, copies }] of byName) {
+      if (versions.size < 2) continue;
+      const sorted = [...versions].sort((a, b) => semver.valid(a) && semver.valid(b) ? semver.rcompare(a, b) : a.localeCompare(b));
+      const ranges = [...(requested.get(name) ?? [])];
+      if (unknownRange.has(name)) {
+        duplicates.push({ name, versions: sorted, copies, requestedRanges: ranges });
+        continue;
+      }
+      const semverRanges = ranges.map(LockfileInspector.semverRange);
+      const dedupeTo = semverRanges.every(r => r !== undefined)
+        ? sorted.find(version => semverRanges.every(range => semver.satisfies(version, range!, { includePrerelease: true })))
+        : undefined;
+      duplicates.push({ name, versions: sorted, copies, requestedRanges: ranges, dedupable: !!dedupeTo, ...(dedupeTo ? { dedupeTo } : {}) });
+    }
+    return duplicates.sort((a, b) => b.copies - a.copies || a.name.localeCompare(b.name));
+  }
+
+  private countPackages(lockfile: LockfileData): { total: number; direct: number; transitive: number } {
+    const unique = new Set(Object.values(lockfile.packages).map(p => `${p.name}@${p.version}`));
+    const direct = new Set<string>();
+    for (const importer of Object.values(lockfile.importers)) {
+      for (const { id } of Object.values(importer.dependencies)) {
+        const pkg = id ? lockfile.packages[id] : undefined;
+        if (pkg) direct.add(`${pkg.name}@${pkg.version}`);
+      }
+    }
+    return { total: unique.size, direct: direct.size, transitive: unique.size - direct.size };
+  }
+
+  // The semver range inside a dependency spec, or undefined for git, file, link and workspace specs
+  static semverRange(spec: string): string | undefined {
+    let range = spec;
+    if (range.startsWith('npm:')) range = range.slice(range.lastIndexOf('@') > 4 ? range.lastIndexOf('@') + 1 : 4);
+    return semver.validRange(range) ? range : undefined;
+  }
+
+  // --- npm: package-lock.json v1 (nested) and v2/v3 (flat "packages" map) ---
+
+  private parseNpm(file: string, json: any): LockfileData {
+    const packages: Record<string, LockedPackage> = {};
+    const links: Record<string, string> = {};
+    const importers: Record<string, LockfileImporter> = {};
+
+    if (json.packages) {
+      for (const [key, entry] of Object.entries<any>(json.packages)) {
+        if (key === '' || !key.includes('node_modules/')) {
+          importers[key || '.'] = { path: key || '.', dependencies: LockfileInspector.declaredDependencies(entry) };
+        } else if (entry.link) {
+          links[key] = entry.resolved;
+        } else {
+          packages[key] = {
+            id: key,
+            name: entry.name ?? key.slice(key.lastIndexOf('node_modules/') + 'node_modules/'.length),
+            version: entry.version,
+            dependencies: { ...entry.dependencies, ...entry.optionalDependencies },
+            resolvedDependencies: {},
+            dev: entry.dev,
+            optional: entry.optional,
+            license: manifestLicense(entry),
+            resolved: entry.resolved,
+          };
+        }
+      }
+    } else {
+      // lockfileVersion 1 nests dependencies; flatten them into install paths
+      const walk = (deps: Record<string, any>, parentKey: string) => {
+        for (const [name, entry] of Object.entries<any>(deps ?? {})) {
+          const key = parentKey ? `${parentKey}/node_modules/${name}` : `node_modules/${name}`;
+          packages[key] = {
+            id: key,
+            name,
+            version: entry.version,
+            dependencies: { ...entry.requires },
+            resolvedDependencies: {},
+            dev: entry.dev,
+            optional: entry.optional,
+            resolved: entry.resolved,
+          };
+          walk(entry.dependencies, key);
+        }
+      };
+      walk(json.dependencies, '');
+      const rootPackageJson = fsExtra.readJsonSync(path.join(path.dirname(file), 'package.json'), { throws: false }) ?? {};
+      importers['.'] = { path: '.', dependencies: LockfileInspector.declaredDependencies(rootPackageJson) };
+    }
+
+    // Node's resolution: look in the nearest node_modules, then walk up towards the root
+    const resolveFrom = (fromKey: string, dep: string): string | undefined => {
+      let base = fromKey;
+      while (true) {
+        const candidate = base ? `${base}/node_modules/${dep}` : `node_modules/${dep}`;
+        if (packages[candidate]) return candidate;
+        if (links[candidate]) return undefined;
+        if (!base) return undefined;
+        const index = base.lastIndexOf('/node_modules/');
+        base = index !== -1 ? base.slice(0, index) : '';
+      }
+    };
+    for (const pkg of Object.values(packages)) {
+      for (const dep of Object.keys(pkg.dependencies)) {
+        const id = resolveFrom(pkg.id, dep);
+        if (id) pkg.resolvedDependencies[dep] = id;
+      }
+    }
+    for (const importer of Object.values(importers)) {
+      for (const [dep, info] of Object.entries(importer.dependencies)) {
+        info.id = resolveFrom(importer.path === '.' ? '' : importer.path, dep);
+      }
+    }
+
+    return { type: 'npm', path: file, lockfileVersion: String(json.lockfileVersion ?? 1), packages, importers };
+  }
+
+  // --- pnpm: pnpm-lock.yaml v5, v6 and v9 ---
+
+  private parsePnpm(file: string, lock: any): LockfileData {
+    const lockfileVersion = String(lock.lockfileVersion ?? '');
+    const major = parseFloat(lockfileVersion) || 0;
+    const packages: Record<string, LockedPackage> = {};
+
+    // v5 ids look like "name/1.0.0_peer", later ones like "name@1.0.0(peer@1.0.0)"
+    const parseId = (id: string): { name: string; version: string } => {
+      if (major < 6) {
+        const slash = id.lastIndexOf('/');
+        return { name: id.slice(0, slash), version: id.slice(slash + 1).split('_')[0] };
+      }
+      const base = id.replace(/\(.*$/, '');
+      const at = base.lastIndexOf('@');
+      return { name: base.slice(0, at), version: base.slice(at + 1) };
+    };
+    // A dependency reference is either a plain version ("1.2.3(peer@1)") or a full id for aliases
+    const refToId = (name: string, ref: string): string | undefined => {
+      if (typeof ref !== 'string' || ref.startsWith('link:') || ref.startsWith('file:')) return undefined;
+      const trimmed = ref.replace(/^\//, '');
+      if (major < 6) return /^\d/.test(trimmed) ? `${name}/${trimmed}` : trimmed;
+      return /^\d/.test(trimmed) ? `${name}@${trimmed}` : trimmed;
+    };
+
+    // pnpm records resolved versions rather than ranges; the ranges come from the manifests in the
+    // virtual store, node_modules/.pnpm/<name>@<version>[_<peers>]/node_modules/<name>
+    const store = path.join(path.dirname(file), 'node_modules', '.pnpm');
+    let storeEntries: string[] = [];
+    try {
+      storeEntries = fs.readdirSync(store);
+    } catch {
+      logger.debug(`No pnpm virtual store at ${store}; dependency ranges are unknown`);
+    }
+    const manifestRanges = new Map<string, Record<string, string> | undefined>();
+    const rangesOf = (name: string, version: string): Record<string, string> | undefined => {
+      const key = `${name}@${version}`;
+      if (!manifestRanges.has(key)) {
+        const prefix = `${name.replace('/', '+')}@${version}`;
+        const entry = storeEntries.find(dir => dir === prefix || dir.startsWith(`${prefix}_`));
+        const manifest = entry ? fsExtra.readJsonSync(path.join(store, entry, 'node_modules', name, 'package.json'), { throws: false }) : null;
+        manifestRanges.set(key, manifest ? { ...manifest.dependencies, ...manifest.optionalDependencies } : undefined);
+      }
+      return manifestRanges.get(key);
+    };
+
+    // v9 splits package metadata ("packages") from the resolved graph ("snapshots")
+    const graph: Record<string, any> = major >= 9 ? (lock.snapshots ?? {}) : (lock.packages ?? {});
+    for (const [key, entry] of Object.entries<any>(graph)) {
+      const id = key.replace(/^\//, '');
+      const { name, version } = parseId(id);
+      const meta = major >= 9 ? (lock.packages?.[id.replace(/\(.*$/, '')] ?? {}) : entry;
+      const refs: Record<string, string> = { ...entry?.dependencies, ...entry?.optionalDependencies };
+      const pkg: LockedPackage = {
+        id,
+        name: meta.name ?? name,
+        version: meta.version ?? version,
+        dependencies: {},
+        resolvedDependencies: {},
+        dev: entry?.dev,
+        optional: entry?.optional,
+        license: meta.license,
+        resolved: meta.resolution?.tarball,
+      };
+      const ranges = rangesOf(pkg.name, pkg.version);
+      for (const [dep, ref] of Object.entries(refs)) {
+        const depId = refToId(dep, ref);
+        if (ranges?.[dep] !== undefined) pkg.dependencies[dep] = ranges[dep];
+        if (depId) pkg.resolvedDependencies[dep] = depId;
+      }
+      packages[id] = pkg;
+    }
+
+    const importers: Record<string, LockfileImporter> = {};
+    const rawImporters: Record<string, any> = lock.importers ?? { '.': lock };
+    for (const [importerPath, raw] of Object.entries<any>(rawImporters)) {
+      const dependencies: LockfileImporter['dependencies'] = {};
+      for (const type of DEPENDENCY_TYPES) {
+        for (const [dep, value] of Object.entries<any>(raw?.[type] ?? {})) {
+          // v6+: { specifier, version }; v5: version here and range under "specifiers"
+          const ref = typeof value === 'object' ? value.version : value;
+          const range = typeof value === 'object' ? value.specifier : raw.specifiers?.[dep];
+          dependencies[dep] = { range, type, id: refToId(dep, ref) };
+        }
+      }
+      importers[importerPath] = { path: importerPath, dependencies };
+    }
+
+    return { type: 'pnpm', path: file, lockfileVersion, packages, importers };
+  }
+
+  // --- yarn: classic (v1) custom format and berry (YAML with __metadata) ---
+
+  private parseYarn(file: string, text: string): LockfileData {
+    const isBerry = /^__metadata:/m.test(text);
+    const entries: Record<string, any> = isBerry ? (YAML.parse(text) ?? {}) : LockfileInspector.parseYarnClassic(text);
+    const lockfileVersion = isBerry ? String(entries.__metadata?.version ?? '') : '1';
+
+    const packages: Record<string, LockedPackage> = {};
+    const descriptors: Record<string, string> = {}; // "name@range" -> id
+    const workspaces: Record<string, any> = {};
+    for (const [key, entry] of Object.entries<any>(entries)) {
+      if (key === '__metadata') continue;
+      const keyDescriptors = key.split(',').map(d => d.trim().replace(/^"|"$/g, ''));
+      const name = LockfileInspector.descriptorName(keyDescriptors[0]);
+      const workspacePath = typeof entry.resolution === 'string' ? entry.resolution.match(/@workspace:(.*)$/)?.[1] : undefined;
+      if (workspacePath !== undefined) {
+        workspaces[workspacePath] = entry;
+        continue;
+      }
+      const id = `${name}@${entry.version}`;
+      for (const descriptor of keyDescriptors) descriptors[descriptor] = id;
+      packages[id] ??= {
+        id,
+        name,
+        version: String(entry.version),
+        dependencies: { ...entry.dependencies, ...entry.optionalDependencies },
+        resolvedDependencies: {},
+        resolved: entry.resolved ?? entry.resolution,
+      };
+    }
+
+    // Berry writes "npm:" into descriptors even when package.json omits it
+    const lookup = (dep: string, range: string): string | undefined =>
+      descriptors[`${dep}@${range}`] ?? (isBerry ? descriptors[`${dep}@npm:${range}`] : undefined);
+    for (const pkg of Object.values(packages)) {
+      for (const [dep, range] of Object.entries(pkg.dependencies)) {
+        const id = lookup(dep, range);
+        if (id) pkg.resolvedDependencies[dep] = id;
+      }
+    }
+
+    // Classic lockfiles carry no project information, so importers come from the package.json files
+    const importers: Record<string, LockfileImporter> = {};
+    const rootDir = path.dirname(file);
+    const importerSources: Array<[string, any]> = isBerry
+      ? Object.entries(workspaces)
+      : LockfileInspector.workspaceDirs(rootDir).map(dir => [dir, fsExtra.readJsonSync(path.join(rootDir, dir, 'package.json'), { throws: false }) ?? {}]);
+    for (const [importerPath, source] of importerSources) {
+      const dependencies = LockfileInspector.declaredDependencies(source);
+      for (const [dep, info] of Object.entries(dependencies)) {
+        if (info.range) info.id = lookup(dep, info.range);
+      }
+      importers[importerPath || '.'] = { path: importerPath || '.', dependencies };
+    }
+
+    return { type: 'yarn', path: file, lockfileVersion, packages, importers };
+  }
+
+  // Minimal reader for the yarn v1 format: "descriptor, descriptor:" blocks of "key value" lines
+  private static parseYarnClassic(text: string): Record<string, any> {
+    const entries: Record<string, any> = {};
+    let current: Record<string, any> | undefined;
+    let section: Record<string, string> | undefined;
+    const unquote = (value: string) => value.replace(/^"(.*)"$/, '$1');
+    for (const line of text.split(/\r?\n/)) {
+      if (!line.trim() || line.trimStart().startsWith('#')) continue;
+      const indent = line.length - line.trimStart().length;
+      const content = line.trim();
+      if (indent === 0) {
+        current = {};
+        section = undefined;
+        entries[content.replace(/:$/, '')] = current;
+      } else if (current && indent === 2) {
+        if (content.endsWith(':')) {
+          section = {};
+          current[unquote(content.slice(0, -1))] = section;
+        } else {
+          section = undefined;
+          const space = content.indexOf(' ');
+          current[unquote(content.slice(0, space))] = unquote(content.slice(space + 1).trim());
+        }
+      } else if (section && indent >= 4) {
+        const space = content.indexOf(' ');
+        section[unquote(content.slice(0, space))] = unquote(content.slice(space + 1).trim());
+      }
+    }
+    return entries;
+  }
+
+  // "@scope/name@^1.0.0" -> "@scope/name"
+  private static descriptorName(descriptor: string): string {
+    const at = descriptor.indexOf('@', 1);
+    return at === -1 ? descriptor : descriptor.slice(0, at);
+  }
+
+  // Relative directories of the root and its workspace members
+  private static workspaceDirs(rootDir: string): string[] {
+    try {
+      return findWorkspaceMembers(path.join(rootDir, 'package.json')).map(member => member.relativeDir);
+    } catch {
+      return ['.'];
+    }
+  }
+
+  private static declaredDependencies(packageJson: any): LockfileImporter['dependencies'] {
+    const dependencies: LockfileImporter['dependencies'] = {};
+    for (const type of DEPENDENCY_TYPES) {
+      for (const [dep, range] of Object.entries<string>(packageJson?.[type] ?? {})) {
+        dependencies[dep] ??= { range, type };
+      }
+    }
+    return dependencies;
+  }
+}
+
+const SEVERITY_ORDER = ['info', 'low', 'moderate', 'high', 'critical'] as const;
+
+// Vulnerability audit of installed versions against the registry's bulk advisory endpoint
+class DependencyAuditor {
+  constructor(
+    private lockfileInspector: LockfileInspector,
+    private npmSearcher: NpmSearcher,
+    private ncuHandler: NpmCheckUpdatesHandler,
+  ) {}
+
+  async audit(args: AuditDependenciesArgs, control: ToolControl = {}): Promise<{ data: any; message: string }> {
+    const packageFile = path.resolve(process.cwd(), args.packagePath || 'package.json');
+    if (!fs.existsSync(packageFile)) throw new Error(`Package file not found: ${packageFile}`);
+    const packageJson = fsExtra.readJsonSync(packageFile);
+    const installed = this.lockfileInspector.readInstalled(path.dirname(packageFile), args.source);
+
+    const included = args.includeDev === false
+      ? this.lockfileInspector.reachablePackages(installed, ['dependencies', 'optionalDependencies', 'peerDependencies'])
+      : new Set(Object.keys(installed.packages));
+    const versionsByName: Record<string, string[]> = {};
+    for (const id of included) {
+      const pkg = installed.packages[id];
+      if (!semver.valid(pkg.version)) continue;
+      const versions = versionsByName[pkg.name] ??= [];
+      if (!versions.includes(pkg.version)) versions.push(pkg.version);
+    }
+
+    // Ranges that request each package, used to decide whether a fix fits without changing them
+    const requestedRanges: Record<string, Set<string>> = {};
+    for (const id of included) {
+      for (const [dep, range] of Object.entries(installed.packages[id].dependencies)) {
+        (requestedRanges[dep] ??= new Set()).add(range);
+      }
+    }
+    const directRanges: Record<string, string> = {};
+    for (const type of DEPENDENCY_TYPES) {
+      if (type === 'devDependencies' && args.includeDev === false) continue;
+      for (const [dep, range] of Object.entries<string>(packageJson[type] ?? {})) directRanges[dep] ??= range;
+    }
+
+    const response = await this.npmSearcher.fetchBulkAdvisories(versionsByName, args.packagePath, control.signal);
+    const minSeverityIndex = SEVERITY_ORDER.indexOf(args.minSeverity ?? 'info');
+
+    const advisories: Array<Record<string, any>> = [];
+    for (const [name, entries] of Object.entries(response)) {
+      for (const advisory of entries ?? []) {
+        const severity = advisory.severity ?? 'info';
+        if (SEVERITY_ORDER.indexOf(severity) < minSeverityIndex) continue;
+        const affected = (versionsByName[name] ?? []).filter(v => semver.satisfies(v, advisory.vulnerable_versions, { includePrerelease: true }));
+        if (affected.length === 0) continue;
+        advisories.push({
+          id: advisory.id,
+          name,
+          title: advisory.title,
+          url: advisory.url,
+          severity,
+          vulnerableVersions: advisory.vulnerable_versions,
+          cwe: advisory.cwe,
+          cvss: advisory.cvss,
+          installedVersions: affected,
+          direct: name in directRanges,
+          ...(await this.findFix(name, advisory.vulnerable_versions, affected, directRanges[name], requestedRanges[name], args.packagePath, control.signal)),
+        });
+      }
+    }
+    advisories.sort((a, b) => SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity) || a.name.localeCompare(b.name));
+
+    // Direct dependencies whose fix needs a wider range are the ones the upgrade logic can apply
+    const fixes: Record<string, string> = {};
+    for (const advisory of advisories) {
+      if (advisory.direct && advisory.recommendedRange) {
+        const current = fixes[advisory.name];
+        if (!current || semver.gt(semver.minVersion(advisory.recommendedRange)!, semver.minVersion(current)!)) {
+          fixes[advisory.name] = advisory.recommendedRange;
+        }
+      }
+    }
+    let applied: Record<string, string> | undefined;
+    let write: { diff: string; changeId?: string } | undefined;
+    if (args.fix && Object.keys(fixes).length > 0) {
+      const result = this.ncuHandler.writeUpgrades('audit_dependencies', path.dirname(packageFile), [{ packageFile, upgrades: fixes }], args.dryRun);
+      applied = result.applied[packageFile] ?? {};
+      write = result.changeId ? { diff: result.diff, changeId: result.changeId } : { diff: result.diff };
+    }
+
+    const bySeverity = Object.fromEntries(SEVERITY_ORDER.map(level => [level, advisories.filter(a => a.severity === level).length]));
+    const summary = {
+      advisories: advisories.length,
+      vulnerablePackages: new Set(advisories.map(a => a.name)).size,
+      packagesScanned: Object.keys(versionsByName).length,
+      bySeverity,
+    };
+    const reinstallFixes = advisories.filter(a => a.fixAction === 'reinstall').length;
+
+    let message = advisories.length === 0
+      ? `No known vulnerabilities found in ${summary.packagesScanned} packages.`
+      : `Found ${advisories.length} advisories affecting ${summary.vulnerablePackages} of ${summary.packagesScanned} packages `
+        + `(${SEVERITY_ORDER.filter(level => bySeverity[level] > 0).reverse().map(level => `${bySeverity[level]} ${level}`).join(', ')}).`;
+    if (reinstallFixes > 0) message += ` ${reinstallFixes} can be fixed by reinstalling within the current ranges.`;
+    if (applied && args.dryRun) message += ` Would update ${Object.keys(applied).length} ranges in package.json (nothing was written).`;
+    else if (applied) message += ` Updated ${Object.keys(applied).length} ranges in package.json (change ${write?.changeId}); reinstall to apply them.`;
+    else if (Object.keys(fixes).length > 0) message += ` ${Object.keys(fixes).length} direct dependencies need a range change (run with fix: true to apply).`;
+
+    return {
+      data: {
+        source: installed.type === 'node_modules' ? 'node_modules' : 'lockfile',
+        path: installed.path,
+        summary,
+        advisories,
+        fixes,
+        ...(applied ? { applied, ...write } : {}),
+      },
+      message,
+    };
+  }
+
+  // Lowest non-vulnerable version overall, and the lowest one the current range(s) already allow
+  private async findFix(
+    name: string,
+    vulnerableRange: string,
+    affected: string[],
+    directRange: string | undefined,
+    requested: Set<string> | undefined,
+    packagePath: string | undefined,
+    signal?: AbortSignal,
+  ): Promise<Record<string, any>> {
+    let versions: string[];
+    try {
+      const { packument } = await this.npmSearcher.fetchPackument(name, packagePath, signal);
+      versions = Object.keys(packument.versions ?? {}).filter(v => semver.valid(v)).sort(semver.compare);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      logger.warn(`Could not load versions of ${name} to find a fix: ${error instanceof Error ? error.message : String(error)}`);
+      return { lowestFixedVersion: null, fixedInRange: null, fixAction: 'unknown' };
+    }
+    const lowestAffected = affected.slice().sort(semver.compare)[0];
+    const allowPrerelease = !!semver.prerelease(lowestAffected);
+    const fixed = versions.filter(v =>
+      semver.gt(v, lowestAffected)
+      && (allowPrerelease || !semver.prerelease(v))
+      && !semver.satisfies(v, vulnerableRange, { includePrerelease: true }));
+    const lowestFixedVersion = fixed[0] ?? null;
+    if (!lowestFixedVersion) return { lowestFixedVersion: null, fixedInRange: null, fixAction: 'none' };
+
+    // The range that governs the installed copy: package.json for direct deps, the parents' ranges otherwise
+    const ranges = (directRange !== undefined ? [directRange] : [...(requested ?? [])])
+      .map(LockfileInspector.semverRange)
+      .filter((r): r is string => r !== undefined);
+    const fixedInRange = ranges.length > 0 ? fixed.find(v => ranges.every(r => semver.satisfies(v, r))) ?? null : null;
+
+    if (fixedInRange) return { lowestFixedVersion, fixedInRange, fixAction: 'reinstall' };
+    if (directRange !== undefined) {
+      return { lowestFixedVersion, fixedInRange: null, fixAction: 'bump-range', recommendedRange: rangeLike(directRange, lowestFixedVersion) };
+    }
+    return { lowestFixedVersion, fixedInRange: null, fixAction: 'upgrade-parent' };
+  }
+}
+
+interface DependencyHop {
+  name: string;
+  range: string | null;
+  version: string;
+  id: string;
+}
+
+interface DependencyPath {
+  importer: string;
+  dependencyType: DependencyType;
+  hops: DependencyHop[];
+}
+
+// "Why is this installed?": every path from the project's package.json (or its workspace members)
+// down to a package in the installed graph, and what upgrading each direct dependency on those
+// paths would do to it, following the newest versions the declared ranges allow
+class DependencyExplainer {
+  private static readonly MAX_CHAINS_PER_DEPENDENCY = 10;
+
+  constructor(private lockfileInspector: LockfileInspector, private npmSearcher: NpmSearcher) {}
+
+  async explain(args: ExplainDependencyArgs, control: ToolControl = {}): Promise<{ data: any; message: string }> {
+    const spec = args.packageName.match(/^(@?[^@]+)@(.+)$/);
+    const packageName = spec ? spec[1] : args.packageName;
+    const range = args.range ?? spec?.[2];
+    if (range !== undefined && !semver.validRange(range)) throw new Error(`Invalid version range: ${range}`);
+    const label = range ? `${packageName}@${range}` : packageName;
+
+    const packageFile = path.resolve(process.cwd(), args.packagePath || 'package.json');
+    if (!fs.existsSync(packageFile)) throw new Error(`Package file not found: ${packageFile}`);
+    const installed = this.lockfileInspector.readInstalled(path.dirname(packageFile), args.source);
+    const importerPath = path.relative(path.dirname(installed.path), path.dirname(packageFile)).split(path.sep).join('/') || '.';
+    const importers = args.workspaces ? Object.values(installed.importers) : [installed.importers[importerPath]].filter(Boolean);
+    if (importers.length === 0) throw new Error(`${packageFile} is not a project or workspace member in ${installed.path}`);
+
+    const targets = new Set(Object.values(installed.packages)
+      .filter(pkg => pkg.name === packageName && (range === undefined || semver.satisfies(pkg.version, range, { includePrerelease: true })))
+      .map(pkg => pkg.id));
+
+    // Walk the graph backwards from the targets so the path search only enters packages that lead to one
+    const dependents: Record<string, string[]> = {};
+    for (const pkg of Object.values(installed.packages)) {
+      for (const id of Object.values(pkg.resolvedDependencies)) (dependents[id] ??= []).push(pkg.id);
+    }
+    const leadsToTarget = new Set(targets);
+    const queue = [...targets];
+    while (queue.length > 0) {
+      for (const id of dependents[queue.shift()!] ?? []) {
+        if (!leadsToTarget.has(id)) {
+          leadsToTarget.add(id);
+          queue.push(id);
+        }
+      }
+    }
+
+    // Depth first from each direct dependency, skipping cycles, until maxPaths are collected
+    const paths: DependencyPath[] = [];
+    let truncated = false;
+    const walk = (hops: DependencyHop[], importer: string, dependencyType: DependencyType): void => {
+      const last = hops[hops.length - 1];
+      if (targets.has(last.id)) {
+        if (paths.length < args.maxPaths) paths.push({ importer, dependencyType, hops: [...hops] });
+        else truncated = true;
+        return;
+      }
+      const pkg = installed.packages[last.id];
+      for (const [name, id] of Object.entries(pkg?.resolvedDependencies ?? {})) {
+        if (truncated) return;
+        if (!leadsToTarget.has(id) || hops.some(hop => hop.id === id)) continue;
+        hops.push(DependencyExplainer.hop(installed, name, pkg.dependencies[name], id));
+        walk(hops, importer, dependencyType);
+        hops.pop();
+      }
+    };
+    const direct: Array<{ importer: string; name: string; type: DependencyType; range?: string; id: string }> = [];
+    for (const importer of importers) {
+      for (const [name, dep] of Object.entries(importer.dependencies)) {
+        if (!dep.id || !leadsToTarget.has(dep.id)) continue;
+        if (dep.type === 'devDependencies' && args.includeDev === false) continue;
+        direct.push({ importer: importer.path, name, type: dep.type, range: dep.range, id: dep.id });
+        walk([DependencyExplainer.hop(installed, name, dep.range, dep.id)], importer.path, dep.type);
+      }
+    }
+    paths.sort((a, b) => a.hops.length - b.hops.length);
+
+    const directDependencies: Array<Record<string, any>> = [];
+    for (const dep of direct) {
+      const ownPaths = paths.filter(p => p.importer === dep.importer && p.hops[0].id === dep.id);
+      // Paths were cut off before reaching this dependency: use its shortest one
+      if (ownPaths.length === 0) ownPaths.push(DependencyExplainer.shortestPath(installed, dep, targets, leadsToTarget));
+      directDependencies.push(await this.upgradeEffect(installed, dep, ownPaths, packageName, range, args.packagePath, control.signal));
+    }
+
+    const installedCopies = [...targets].map(id => ({ id, version: installed.packages[id].version }))
+      .sort((a, b) => semver.compare(a.version, b.version) || a.id.localeCompare(b.id));
+    const versions = [...new Set(installedCopies.map(copy => copy.version))];
+    const byEffect = (effect: string) => [...new Set(directDependencies.filter(dep => dep.effect === effect).map(dep => dep.name))];
+    let message: string;
+    if (targets.size === 0) {
+      message = `${label} is not installed in ${installed.path}.`;
+    } else if (direct.length === 0) {
+      message = `${label} is installed (${versions.join(', ')}) but no dependency of ${importers.map(importer => importer.path).join(', ')} leads to it; it is extraneous or only reachable from other workspace members.`;
+    } else {
+      message = `${label} is installed as ${versions.join(', ')} (${targets.size} copies), reached through ${paths.length}${truncated ? '+' : ''} paths`
+        + ` from ${direct.length} direct dependencies: ${[...new Set(direct.map(dep => dep.name))].join(', ')}.`;
+      if (byEffect('removes').length) message += ` Upgrading ${byEffect('removes').join(', ')} would remove it.`;
+      if (byEffect('changes').length) message += ` Upgrading ${byEffect('changes').join(', ')} would change its version.`;
+    }
+    return {
+      data: {
+        packageName,
+        range: range ?? null,
+        source: installed.type === 'node_modules' ? 'node_modules' : 'lockfile',
+        path: installed.path,
+        installed: installedCopies,
+        paths,
+        truncated,
+        directDependencies,
+      },
+      message,
+    };
+  }
+
+  private static hop(lockfile: LockfileData, name: string, declared: string | undefined, id: string): DependencyHop {
+    return { name, range: declared ?? null, version: lockfile.packages[id]?.version ?? '', id };
+  }
+
+  private static shortestPath(
+    lockfile: LockfileData,
+    dep: { importer: string; name: string; type: DependencyType; range?: string; id: string },
+    targets: Set<string>,
+    leadsToTarget: Set<string>,
+  ): DependencyPath {
+    const previous = new Map<string, { from: string; name: string } | null>([[dep.id, null]]);
+    const queue = [dep.id];
+    let found = targets.has(dep.id) ? dep.id : undefined;
+    while (!found && queue.length > 0) {
+      const pkg = lockfile.packages[queue.shift()!];
+      for (const [name, id] of Object.entries(pkg?.resolvedDependencies ?? {})) {
+        if (previous.has(id) || !leadsToTarget.has(id)) continue;
+        previous.set(id, { from: pkg.id, name });
+        if (targets.has(id)) {
+          found = id;
+          break;
+        }
+        queue.push(id);
+      }
+    }
+    const hops: DependencyHop[] = [];
+    for (let id = found; id && id !== dep.id; id = previous.get(id)!.from) {
+      const { from, name } = previous.get(id)!;
+      hops.unshift(DependencyExplainer.hop(lockfile, name, lockfile.packages[from].dependencies[name], id));
+    }
+    hops.unshift(DependencyExplainer.hop(lockfile, dep.name, dep.range, dep.id));
+    return { importer: dep.importer, dependencyType: dep.type, hops };
+  }
+
+  // Resolve the paths below a direct dependency again from its latest version and compare the
+  // versions of the package they end at with the installed ones
+  private async upgradeEffect(
+    lockfile: LockfileData,
+    dep: { importer: string; name: string; type: DependencyType; range?: string; id: string },
+    paths: DependencyPath[],
+    packageName: string,
+    range: string | undefined,
+    packagePath: string | undefined,
+    signal?: AbortSignal,
+  ): Promise<Record<string, any>> {
+    const pkg = lockfile.packages[dep.id];
+    const result = { importer: dep.importer, name: dep.name, type: dep.type, range: dep.range ?? null, version: pkg.version };
+    const currentVersions = [...new Set(paths.map(p => p.hops[p.hops.length - 1].version))].sort(semver.compare);
+    let latestVersion: string | null = null;
+    try {
+      const { packument } = await this.npmSearcher.fetchPackument(pkg.name, packagePath, signal);
+      latestVersion = packument['dist-tags']?.latest ?? null;
+      if (!latestVersion || !semver.valid(latestVersion) || !semver.gt(latestVersion, pkg.version)) {
+        return { ...result, latestVersion, effect: 'current', resolvesTo: currentVersions, detail: `${dep.name} ${pkg.version} is already the latest version` };
+      }
+
+      const chains = [...new Map(paths.map(p => {
+        const chain = p.hops.slice(1).map(hop => hop.name);
+        return [chain.join('>'), chain] as const;
+      })).values()].slice(0, DependencyExplainer.MAX_CHAINS_PER_DEPENDENCY);
+      const reached = new Set<string>();
+      for (const chain of chains) {
+        const version = await this.resolveChain(pkg.name, latestVersion, chain, packagePath, signal);
+        if (version) reached.add(version);
+      }
+      const resolvesTo = [...reached].sort(semver.compare);
+      const matching = resolvesTo.filter(version => range === undefined || semver.satisfies(version, range, { includePrerelease: true }));
+      const upgrade = `Upgrading ${dep.name} to ${latestVersion}`;
+      if (matching.length === 0) {
+        return {
+          ...result, latestVersion, effect: 'removes', resolvesTo,
+          detail: resolvesTo.length > 0
+            ? `${upgrade} would move ${packageName} to ${resolvesTo.join(', ')}, outside ${range}`
+            : `${upgrade} would no longer pull in ${packageName}`,
+        };
+      }
+      if (resolvesTo.join() === currentVersions.join()) {
+        return { ...result, latestVersion, effect: 'keeps', resolvesTo, detail: `${upgrade} would still install ${packageName} ${resolvesTo.join(', ')}` };
+      }
+      return {
+        ...result, latestVersion, effect: 'changes', resolvesTo,
+        detail: `${upgrade} would install ${packageName} ${resolvesTo.join(', ')} instead of ${currentVersions.join(', ')}`,
+      };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      return { ...result, latestVersion, effect: 'unknown', resolvesTo: [], detail: `Could not resolve the upgrade: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+
+  // Follow a chain of dependency names from name@version, taking the newest version each declared
+  // range allows. Returns the version the chain ends at, or null once a hop no longer depends on the next.
+  private async resolveChain(name: string, version: string, chain: string[], packagePath: string | undefined, signal?: AbortSignal): Promise<string | null> {
+    let manifest = (await this.npmSearcher.fetchPackument(name, packagePath, signal)).packument.versions?.[version];
+    let current = version;
+    for (const next of chain) {
+      const declared: string | undefined = manifest?.dependencies?.[next] ?? manifest?.optionalDependencies?.[next] ?? manifest?.peerDependencies?.[next];
+      if (declared === undefined) return null;
+      const nextRange = LockfileInspector.semverRange(declared);
+      if (nextRange === undefined || declared.startsWith('npm:')) throw new Error(`${next}@${declared} is not a plain registry range`);
+      const { packument } = await this.npmSearcher.fetchPackument(next, packagePath, signal);
+      const resolved = semver.maxSatisfying(Object.keys(packument.versions ?? {}), nextRange);
+      if (!resolved) throw new Error(`no version of ${next} satisfies ${nextRange}`);
+      current = resolved;
+      manifest = packument.versions[resolved];
+    }
+    return current;
+  }
+}
+
+interface PeerConflict {
+  package: string;
+  version: string;
+  peer: string;
+  requires: string;
+  peerVersion: string | null;
+  message: string;
+}
+
+// Finds the newest combination of versions for a set of proposed upgrades in which every
+// peerDependencies range between the project's direct dependencies holds. When a package has to
+// stay behind, or no combination exists, it names the package that pins each peer.
+class PeerDependencySolver {
+  private static readonly MAX_STEPS = 100000;
+
+  constructor(
+    private lockfileInspector: LockfileInspector,
+    private npmSearcher: NpmSearcher,
+    private ncuHandler: NpmCheckUpdatesHandler,
+  ) {}
+
+  async solve(args: SolvePeerDependenciesArgs, control: ToolControl = {}): Promise<{ data: any; message: string }> {
+    const packageFile = path.resolve(process.cwd(), args.packagePath || 'package.json');
+    if (!fs.existsSync(packageFile)) throw new Error(`Package file not found: ${packageFile}`);
+    const projectDir = path.dirname(packageFile);
+    const packageJson = fsExtra.readJsonSync(packageFile);
+    const proposed: Record<string, string> = args.upgrades ?? (await this.ncuHandler.checkUpdates({ packagePath: packageFile }, control)).data.upgrades;
+
+    const declared: Record<string, string> = {};
+    for (const type of DEPENDENCY_TYPES) {
+      for (const [name, range] of Object.entries<string>(packageJson[type] ?? {})) declared[name] ??= range;
+    }
+    const locked = this.lockedVersions(projectDir);
+    const currentVersion = (name: string): string | null => {
+      const range = declared[name] !== undefined ? LockfileInspector.semverRange(declared[name]) : undefined;
+      return locked[name] ?? (range ? semver.minVersion(range)?.version : undefined) ?? null;
+    };
+
+    // Metadata of every direct dependency: the peers of the ones that stay put constrain the upgrades too
+    const names = [...new Set([...Object.keys(declared).filter(name => LockfileInspector.semverRange(declared[name])), ...Object.keys(proposed)])];
+    const packuments: Record<string, any> = {};
+    await Promise.all(names.map(async name => {
+      try {
+        packuments[name] = (await this.npmSearcher.fetchPackument(name, packageFile, control.signal)).packument;
+      } catch (error) {
+        if (control.signal?.aborted) throw error;
+        logger.warn(`No metadata for ${name}, its peer dependencies are ignored: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }));
+    const peersOf = (name: string, version: string): Array<[string, string, boolean]> => {
+      const manifest = packuments[name]?.versions?.[version];
+      return Object.entries<string>(manifest?.peerDependencies ?? {})
+        .map(([peer, range]) => [peer, range, !!manifest.peerDependenciesMeta?.[peer]?.optional]);
+    };
+
+    const fixed: Record<string, string> = {};
+    for (const name of Object.keys(declared)) {
+      const version = currentVersion(name);
+      if (version && !(name in proposed)) fixed[name] = version;
+    }
+    const domains: Record<string, string[]> = {};
+    const proposedVersions: Record<string, string | null> = {};
+    for (const [name, range] of Object.entries(proposed)) {
+      const current = currentVersion(name);
+      proposedVersions[name] = packuments[name] ? PeerDependencySolver.resolveVersion(packuments[name], range) : null;
+      if (proposedVersions[name]) domains[name] = PeerDependencySolver.candidates(packuments[name], current, proposedVersions[name]!);
+      else if (current) fixed[name] = current;
+    }
+
+    // Conflicts within an assignment; with `involving`, only those touching one of those packages
+    const conflictsIn = (assignment: Record<string, string>, involving?: Set<string>): PeerConflict[] => {
+      const conflicts: PeerConflict[] = [];
+      for (const [name, version] of Object.entries(assignment)) {
+        for (const [peer, range] of peersOf(name, version)) {
+          const peerVersion = assignment[peer];
+          if (peerVersion === undefined || semver.satisfies(peerVersion, range, { includePrerelease: true })) continue;
+          if (involving && !involving.has(name) && !involving.has(peer)) continue;
+          const source = peer in domains && peerVersion !== currentVersion(peer) ? 'you target' : 'you have';
+          conflicts.push({ package: name, version, peer, requires: range, peerVersion, message: `${name}@${version} requires ${peer} ${range}, ${source} ${peerVersion}` });
+        }
+      }
+      return conflicts;
+    };
+
+    // Backtracking search, newest candidates first. Packages other dependencies name as a peer
+    // (react, eslint, typescript) are decided first, so the hosts get the newest versions and
+    // their plugins follow them.
+    const peerCount = (name: string) => Object.keys(packuments).filter(other =>
+      Object.values<any>(packuments[other].versions ?? {}).some(manifest => manifest?.peerDependencies?.[name])).length;
+    const order = Object.keys(domains).sort((a, b) => peerCount(b) - peerCount(a) || a.localeCompare(b));
+    const assignment: Record<string, string> = { ...fixed };
+    const consistent = (name: string, version: string): boolean =>
+      peersOf(name, version).every(([peer, range]) => assignment[peer] === undefined || semver.satisfies(assignment[peer], range, { includePrerelease: true }))
+      && Object.entries(assignment).every(([other, otherVersion]) => {
+        const range = peersOf(other, otherVersion).find(([peer]) => peer === name)?.[1];
+        return range === undefined || semver.satisfies(version, range, { includePrerelease: true });
+      });
+    let steps = 0;
+    const search = (index: number): boolean => {
+      if (index === order.length) return true;
+      const name = order[index];
+      for (const version of domains[name]) {
+        if (++steps > PeerDependencySolver.MAX_STEPS) throw new Error(`Gave up after trying ${PeerDependencySolver.MAX_STEPS} combinations; propose fewer upgrades at once`);
+        if (!consistent(name, version)) continue;
+        assignment[name] = version;
+        if (search(index + 1)) return true;
+        delete assignment[name];
+      }
+      return false;
+    };
+    control.signal?.throwIfAborted();
+    const solved = search(0);
+
+    const proposedAssignment: Record<string, string> = { ...fixed };
+    for (const name of order) proposedAssignment[name] = proposedVersions[name]!;
+    const conflicts = conflictsIn(proposedAssignment, new Set(order));
+    const currentAssignment: Record<string, string> = { ...fixed };
+    for (const name of order) {
+      const current = currentVersion(name);
+      if (current) currentAssignment[name] = current;
+    }
+    const existingConflicts = conflictsIn(currentAssignment);
+
+    const upgrades: Record<string, string> = {};
+    const packages = Object.entries(proposed).map(([name, range]) => {
+      const current = currentVersion(name);
+      const proposedVersion = proposedVersions[name];
+      const solvedVersion = solved ? assignment[name] ?? current : null;
+      const reasons: string[] = [];
+      let status: 'upgraded' | 'partial' | 'heldBack' | 'unresolved';
+      if (!proposedVersion) {
+        status = 'unresolved';
+        reasons.push(packuments[name] ? `${range} matches no published version of ${name}` : `no registry metadata for ${name}`);
+      } else if (!solved) {
+        status = 'unresolved';
+        reasons.push(...conflicts.filter(c => c.package === name || c.peer === name).map(c => c.message));
+      } else {
+        status = solvedVersion === proposedVersion ? 'upgraded' : solvedVersion === current ? 'heldBack' : 'partial';
+        if (status !== 'upgraded') {
+          reasons.push(...conflictsIn({ ...assignment, [name]: proposedVersion }, new Set([name])).map(c => c.message));
+        }
+        if (status === 'upgraded') upgrades[name] = range;
+        else if (status === 'partial') upgrades[name] = rangeLike(declared[name] ?? range, solvedVersion!);
+      }
+      return { name, current: declared[name] ?? null, currentVersion: current, proposed: range, proposedVersion, solvedVersion, status, reasons };
+    });
+
+    const missingPeers: PeerConflict[] = [];
+    for (const name of order) {
+      const version = solved ? assignment[name] : proposedVersions[name]!;
+      for (const [peer, range, optional] of peersOf(name, version)) {
+        if (optional || peer in declared || peer in proposed) continue;
+        missingPeers.push({ package: name, version, peer, requires: range, peerVersion: null, message: `${name}@${version} requires ${peer} ${range}, which is not a dependency of the project` });
+      }
+    }
+
+    let write: { diff: string; changeId?: string } | undefined;
+    if (solved && (args.upgrade || args.dryRun)) {
+      const result = this.ncuHandler.writeUpgrades('solve_peer_dependencies', projectDir, [{ packageFile, upgrades }], args.dryRun);
+      write = result.changeId ? { diff: result.diff, changeId: result.changeId } : { diff: result.diff };
+    }
+
+    const count = (status: string) => packages.filter(p => p.status === status).length;
+    let message: string;
+    if (packages.length === 0) {
+      message = "No upgrades proposed; nothing to solve.";
+    } else if (solved) {
+      message = `Every peer range holds with ${count('upgraded')} of ${packages.length} proposed upgrades`
+        + (count('partial') || count('heldBack') ? ` (${count('partial')} partial, ${count('heldBack')} held back).` : '.');
+      for (const p of packages.filter(p => p.status === 'partial' || p.status === 'heldBack')) {
+        message += ` ${p.name} stays at ${p.solvedVersion}: ${p.reasons[0] ?? 'its newer versions conflict with the other upgrades'}.`;
+      }
+    } else {
+      message = `No combination of versions satisfies every peer range.`
+        + (conflicts.length ? ` ${conflicts.slice(0, 5).map(c => c.message).join('; ')}.` : '')
+        + (existingConflicts.length ? ` Already broken before upgrading: ${existingConflicts.slice(0, 5).map(c => c.message).join('; ')}.` : '');
+    }
+    if (packages.some(p => p.status === 'unresolved' && p.proposedVersion === null)) {
+      message += ` Unresolved: ${packages.filter(p => p.proposedVersion === null).map(p => `${p.name} (${p.reasons[0]})`).join(', ')}.`;
+    }
+    if (write && args.dryRun) message += ` Nothing was written; the diff shows the package.json changes.`;
+    else if (write?.changeId) message += ` Updated package.json (change ${write.changeId}); reinstall to apply it.`;
+
+    return {
+      data: { solved, packages, upgrades, conflicts, existingConflicts, missingPeers, ...(write ?? {}) },
+      message,
+    };
+  }
+
+  // Locked versions of the project's direct dependencies, when there is a lockfile or node_modules
+  private lockedVersions(projectDir: string): Record<string, string> {
+    let installed: LockfileData;
+    try {
+      installed = this.lockfileInspector.readInstalled(projectDir);
+    } catch {
+      return {};
+    }
+    const importer = installed.importers[path.relative(path.dirname(installed.path), projectDir).split(path.sep).join('/') || '.'];
+    const versions: Record<string, string> = {};
+    for (const [name, dep] of Object.entries(importer?.dependencies ?? {})) {
+      if (dep.id && installed.packages[dep.id]) versions[name] = installed.packages[dep.id].version;
+    }
+    return versions;
+  }
+
+  // A proposed range, exact version or dist-tag -> the version it installs
+  private static resolveVersion(packument: any, spec: string): string | null {
+    const tagged = packument['dist-tags']?.[spec];
+    if (tagged) return tagged;
+    const range = LockfileInspector.semverRange(spec);
+    if (!range) return null;
+    const versions = Object.keys(packument.versions ?? {});
+    const minimum = semver.minVersion(range)?.version;
+    // ncu writes the target as the range's minimum ("^9.1.0"), so prefer that version when it exists
+    return minimum && versions.includes(minimum) ? minimum : semver.maxSatisfying(versions, range);
+  }
+
+  // Versions worth trying, newest first: the proposed one, the newest release of each major in
+  // between, and the current version as the fallback
+  private static candidates(packument: any, current: string | null, proposed: string): string[] {
+    const newestPerMajor = new Map<number, string>();
+    for (const version of Object.keys(packument.versions ?? {})) {
+      if (!semver.valid(version) || semver.prerelease(version) || semver.gt(version, proposed)) continue;
+      if (current && semver.lte(version, current)) continue;
+      const major = semver.major(version);
+      if (!newestPerMajor.has(major) || semver.gt(version, newestPerMajor.get(major)!)) newestPerMajor.set(major, version);
+    }
+    const versions = new Set([proposed, ...newestPerMajor.values(), ...(current ? [current] : [])]);
+    return [...versions].sort(semver.rcompare);
+  }
+}
+
+// Common SPDX license identifiers, used to fix their case and to tell licenses from free text
+const SPDX_LICENSE_IDS = [
+  '0BSD', 'AFL-2.1', 'AFL-3.0', 'AGPL-1.0-only', 'AGPL-1.0-or-later', 'AGPL-3.0-only', 'AGPL-3.0-or-later',
+  'Apache-1.0', 'Apache-1.1', 'Apache-2.0', 'APSL-2.0', 'Artistic-1.0', 'Artistic-2.0', 'BlueOak-1.0.0',
+  'BSD-1-Clause', 'BSD-2-Clause', 'BSD-2-Clause-Patent', 'BSD-3-Clause', 'BSD-3-Clause-Clear', 'BSD-4-Clause',
+  'BSL-1.0', 'BUSL-1.1', 'CAL-1.0', 'CC-BY-1.0', 'CC-BY-2.0', 'CC-BY-2.5', 'CC-BY-3.0', 'CC-BY-4.0',
+  'CC-BY-NC-4.0', 'CC-BY-NC-SA-4.0', 'CC-BY-ND-4.0', 'CC-BY-SA-3.0', 'CC-BY-SA-4.0', 'CC0-1.0',
+  'CDDL-1.0', 'CDDL-1.1', 'CPAL-1.0', 'CPL-1.0', 'ECL-2.0', 'EPL-1.0', 'EPL-2.0', 'EUPL-1.1', 'EUPL-1.2',
+  'GFDL-1.3-only', 'GFDL-1.3-or-later', 'GPL-1.0-only', 'GPL-1.0-or-later', 'GPL-2.0-only', 'GPL-2.0-or-later',
+  'GPL-3.0-only', 'GPL-3.0-or-later', 'Hippocratic-2.1', 'ISC', 'JSON', 'LGPL-2.0-only', 'LGPL-2.0-or-later',
+  'LGPL-2.1-only', 'LGPL-2.1-or-later', 'LGPL-3.0-only', 'LGPL-3.0-or-later', 'MIT', 'MIT-0', 'MIT-CMU',
+  'MPL-1.0', 'MPL-1.1', 'MPL-2.0', 'MPL-2.0-no-copyleft-exception', 'MS-PL', 'MS-RL', 'MulanPSL-2.0', 'NCSA',
+  'ODbL-1.0', 'OFL-1.1', 'OpenSSL', 'OSL-3.0', 'PostgreSQL', 'PSF-2.0', 'Python-2.0', 'Ruby', 'SSPL-1.0',
+  'Unicode-3.0', 'Unicode-DFS-2016', 'Unlicense', 'UPL-1.0', 'Vim', 'W3C', 'WTFPL', 'X11', 'Zlib', 'ZPL-2.1',
+];
+const SPDX_IDS_BY_LOWERCASE = new Map(SPDX_LICENSE_IDS.map(id => [id.toLowerCase(), id]));
+
+// Deprecated GNU identifiers: a bare version means "-only", a trailing + means "-or-later"
+const GNU_LICENSE_ID = /^(AGPL|GPL|LGPL|GFDL)-(\d\.\d)(\+)?$/i;
+
+// Free-text license names found in package.json files, keyed in lowercase
+const LICENSE_ALIASES: Record<string, string> = {
+  'apache 2': 'Apache-2.0',
+  'apache 2.0': 'Apache-2.0',
+  'apache-2': 'Apache-2.0',
+  'apache2': 'Apache-2.0',
+  'apache license 2.0': 'Apache-2.0',
+  'apache license, version 2.0': 'Apache-2.0',
+  'apache license version 2.0': 'Apache-2.0',
+  'mit license': 'MIT',
+  'the mit license': 'MIT',
+  'expat': 'MIT',
+  'isc license': 'ISC',
+  'bsd-2': 'BSD-2-Clause',
+  'bsd 2-clause': 'BSD-2-Clause',
+  'simplified bsd': 'BSD-2-Clause',
+  'freebsd': 'BSD-2-Clause',
+  'bsd-3': 'BSD-3-Clause',
+  'bsd 3-clause': 'BSD-3-Clause',
+  'new bsd': 'BSD-3-Clause',
+  'modified bsd': 'BSD-3-Clause',
+  'gplv2': 'GPL-2.0-only',
+  'gpl v2': 'GPL-2.0-only',
+  'gplv3': 'GPL-3.0-only',
+  'gpl v3': 'GPL-3.0-only',
+  'lgplv2.1': 'LGPL-2.1-only',
+  'lgplv3': 'LGPL-3.0-only',
+  'agplv3': 'AGPL-3.0-only',
+  'mpl 2.0': 'MPL-2.0',
+  'cc0': 'CC0-1.0',
+};
+
+type LicenseNode =
+  | { type: 'license'; id: string; known: boolean; exception?: string }
+  | { type: 'AND' | 'OR'; left: LicenseNode; right: LicenseNode };
+
+// The license a manifest declares: an SPDX string, a legacy { type } object or a legacy `licenses` array
+function manifestLicense(manifest: any): string | undefined {
+  const license = manifest?.license ?? manifest?.licenses;
+  if (typeof license === 'string') return license;
+  if (Array.isArray(license)) {
+    const types = license.map(entry => typeof entry === 'string' ? entry : entry?.type).filter(Boolean);
+    return types.length > 1 ? `(${types.join(' OR ')})` : types[0];
+  }
+  return license?.type;
+}
+
+// Canonical SPDX id for one license name; `known` is false for free text and custom licenses
+function normalizeLicenseId(raw: string): { id: string; known: boolean } {
+  const text = raw.trim();
+  const alias = LICENSE_ALIASES[text.toLowerCase().replace(/\s+/g, ' ')];
+  if (alias) return { id: alias, known: true };
+  const gnu = text.match(GNU_LICENSE_ID);
+  if (gnu) {
+    const id = SPDX_IDS_BY_LOWERCASE.get(`${gnu[1]}-${gnu[2]}-${gnu[3] ? 'or-later' : 'only'}`.toLowerCase());
+    if (id) return { id, known: true };
+  }
+  const plus = text.endsWith('+');
+  const id = SPDX_IDS_BY_LOWERCASE.get((plus ? text.slice(0, -1) : text).toLowerCase());
+  if (id) return { id: plus ? `${id}+` : id, known: true };
+  return { id: text, known: false };
+}
+
+// Parse an SPDX expression such as "MIT OR (Apache-2.0 WITH LLVM-exception)", accepting lowercase
+// operators and common free-text names. Anything else becomes a single unknown license.
+function parseLicenseExpression(text: string): LicenseNode {
+  const whole = normalizeLicenseId(text);
+  if (whole.known) return { type: 'license', ...whole };
+  const tokens = text.replace(/[()]/g, ' $& ').trim().split(/\s+/);
+  let position = 0;
+  const isOperator = (token: string | undefined, operator: string) => token?.toUpperCase() === operator;
+  const parseAtom = (): LicenseNode => {
+    const token = tokens[position++];
+    if (token === '(') {
+      const node = parseOr();
+      if (tokens[position++] !== ')') throw new Error('Unbalanced parentheses');
+      return node;
+    }
+    if (token === undefined || token === ')' || /^(AND|OR|WITH)$/i.test(token)) throw new Error(`Unexpected ${token ?? 'end'}`);
+    const node: LicenseNode = { type: 'license', ...normalizeLicenseId(token) };
+    if (isOperator(tokens[position], 'WITH')) {
+      node.exception = tokens[position + 1];
+      position += 2;
+      if (!node.exception || /^[()]$/.test(node.exception)) throw new Error('Missing exception');
+    }
+    return node;
+  };
+  const parseAnd = (): LicenseNode => {
+    let node = parseAtom();
+    while (isOperator(tokens[position], 'AND')) {
+      position++;
+      node = { type: 'AND', left: node, right: parseAtom() };
+    }
+    return node;
+  };
+  const parseOr = (): LicenseNode => {
+    let node = parseAnd();
+    while (isOperator(tokens[position], 'OR')) {
+      position++;
+      node = { type: 'OR', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+  try {
+    const node = parseOr();
+    if (position === tokens.length) return node;
+  } catch {
+    // not an expression: fall through to free text
+  }
+  return { type: 'license', id: text.trim(), known: false };
+}
+
+function formatLicenseExpression(node: LicenseNode, parent?: 'AND' | 'OR'): string {
+  if (node.type === 'license') return node.exception ? `${node.id} WITH ${node.exception}` : node.id;
+  const text = `${formatLicenseExpression(node.left, node.type)} ${node.type} ${formatLicenseExpression(node.right, node.type)}`;
+  return parent && parent !== node.type ? `(${text})` : text;
+}
+
+type LicenseStatus = z.infer<typeof LicenseStatusEnum>;
+
+interface LicensePolicy {
+  file: string | null;
+  allow: string[];
+  deny: string[];
+  overrides: Record<string, string>; // name or name@version -> license expression to use instead
+}
+
+const LicensePolicyConfigSchema = z.object({
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+  overrides: z.record(z.string()).optional(),
+});
+
+class LicenseChecker {
+  // Worst first: an AND takes the worst of its parts, an OR the best
+  private static readonly STATUS_RANK: LicenseStatus[] = ['missing', 'denied', 'unknown', 'unlisted', 'allowed'];
+
+  constructor(private lockfileInspector: LockfileInspector, private npmSearcher: NpmSearcher) {}
+
+  async check(args: CheckLicensesArgs, control: ToolControl = {}): Promise<{ data: any; message: string }> {
+    const packageFile = path.resolve(process.cwd(), args.packagePath || 'package.json');
+    if (!fs.existsSync(packageFile)) throw new Error(`Package file not found: ${packageFile}`);
+    const projectDir = path.dirname(packageFile);
+    const policy = LicenseChecker.loadPolicy(projectDir, args);
+    const installed = this.lockfileInspector.readInstalled(projectDir, args.source);
+    const production = this.lockfileInspector.reachablePackages(installed, ['dependencies', 'optionalDependencies', 'peerDependencies']);
+
+    // One entry per name@version; workspace members are our own code
+    const entries = new Map<string, { name: string; version: string; license?: string; licenseSource: 'lockfile' | 'node_modules' | 'registry' | 'override' | null; dev: boolean }>();
+    for (const pkg of Object.values(installed.packages)) {
+      if (pkg.id in installed.importers || !semver.valid(pkg.version)) continue;
+      const dev = !production.has(pkg.id);
+      if (dev && args.includeDev === false) continue;
+      const key = `${pkg.name}@${pkg.version}`;
+      const entry = entries.get(key);
+      if (entry) {
+        entry.dev &&= dev;
+        entry.license ??= pkg.license;
+        continue;
+      }
+      entries.set(key, {
+        name: pkg.name,
+        version: pkg.version,
+        license: pkg.license,
+        licenseSource: pkg.license ? (installed.type === 'node_modules' ? 'node_modules' : 'lockfile') : null,
+        dev,
+      });
+    }
+
+    for (const [key, entry] of entries) {
+      const override = policy.overrides[key] ?? policy.overrides[entry.name];
+      if (override) Object.assign(entry, { license: override, licenseSource: 'override' });
+    }
+    // pnpm and yarn lockfiles do not record licenses: read them from node_modules, then the registry
+    let missing = [...entries.values()].filter(entry => !entry.license);
+    if (missing.length > 0 && installed.type !== 'node_modules' && fs.existsSync(path.join(projectDir, 'node_modules'))) {
+      const onDisk: Record<string, string> = {};
+      try {
+        for (const pkg of Object.values(this.lockfileInspector.readNodeModules(projectDir).packages)) {
+          if (pkg.license) onDisk[`${pkg.name}@${pkg.version}`] ??= pkg.license;
+        }
+      } catch (error) {
+        logger.warn(`Could not read node_modules for licenses: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      for (const entry of missing) {
+        const license = onDisk[`${entry.name}@${entry.version}`];
+        if (license) Object.assign(entry, { license, licenseSource: 'node_modules' });
+      }
+      missing = missing.filter(entry => !entry.license);
+    }
+    if (args.lookupMissing) {
+      for (const [index, entry] of missing.entries()) {
+        control.progress?.(index, missing.length, `Looking up the license of ${entry.name}@${entry.version}`);
+        try {
+          const { packument } = await this.npmSearcher.fetchPackument(entry.name, packageFile, control.signal);
+          const license = manifestLicense(packument.versions?.[entry.version]);
+          if (license) Object.assign(entry, { license, licenseSource: 'registry' });
+        } catch (error) {
+          if (control.signal?.aborted) throw error;
+          logger.warn(`No registry metadata for ${entry.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+      if (missing.length > 0) control.progress?.(missing.length, missing.length, 'Looked up missing licenses');
+    }
+
+    const packages = [...entries.values()]
+      .sort((a, b) => a.name.localeCompare(b.name) || semver.compare(a.version, b.version))
+      .map(entry => {
+        if (!entry.license) {
+          return { ...entry, license: null, expression: null, status: 'missing' as LicenseStatus, detail: 'No license declared' };
+        }
+        const node = parseLicenseExpression(entry.license);
+        const status = LicenseChecker.evaluate(node, policy);
+        const causes = LicenseChecker.leaves(node).filter(leaf => LicenseChecker.evaluate(leaf, policy) === status).map(leaf => leaf.id);
+        const detail = status === 'denied' ? `${causes.join(', ')} denied by the policy`
+          : status === 'unlisted' ? `${causes.join(', ')} not on the allow list`
+          : status === 'unknown' ? `${causes.map(id => `"${id}"`).join(', ')} not a recognized SPDX license`
+          : undefined;
+        return { ...entry, expression: formatLicenseExpression(node), status, ...(detail ? { detail } : {}) };
+      });
+
+    const summary: Record<string, number> = Object.fromEntries(LicenseStatusEnum.options.map(status => [status, 0]));
+    const licenses: Record<string, number> = {};
+    for (const pkg of packages) {
+      summary[pkg.status]++;
+      const expression = pkg.expression ?? 'none';
+      licenses[expression] = (licenses[expression] ?? 0) + 1;
+    }
+    const flagged = packages.filter(pkg => pkg.status !== 'allowed');
+    const report = args.reportFormat === 'csv' ? LicenseChecker.csvReport(packages) : LicenseChecker.markdownReport(packages, licenses);
+
+    const counts = LicenseStatusEnum.options.filter(status => summary[status] > 0).map(status => `${summary[status]} ${status}`).join(', ');
+    let message = `Checked ${packages.length} packages${args.includeDev === false ? ' (production only)' : ''} from ${installed.path}: ${counts || 'none found'}.`;
+    message += policy.file ? ` Policy from ${policy.file}.` : policy.allow.length || policy.deny.length ? '' : ` No allow or deny list is configured (${PROJECT_CONFIG_FILE}), so only unknown and missing licenses are flagged.`;
+    if (flagged.length > 0) {
+      message += ` Flagged: ${flagged.slice(0, 10).map(pkg => `${pkg.name}@${pkg.version} (${pkg.expression ?? 'no license'}, ${pkg.status})`).join(', ')}${flagged.length > 10 ? ` and ${flagged.length - 10} more` : ''}.`;
+    }
+    return {
+      data: {
+        source: installed.type === 'node_modules' ? 'node_modules' : 'lockfile',
+        path: installed.path,
+        policy: { file: policy.file, allow: policy.allow, deny: policy.deny },
+        compliant: flagged.length === 0,
+        summary,
+        licenses,
+        packages,
+        flagged: flagged.map(pkg => `${pkg.name}@${pkg.version}`),
+        reportFormat: args.reportFormat,
+        report,
+      },
+      message,
+    };
+  }
+
+  // Lists from the arguments win over the `licenses` section of .npmhelperrc.json
+  private static loadPolicy(projectDir: string, args: CheckLicensesArgs): LicensePolicy {
+    const found = readProjectConfig(projectDir);
+    const parsed = LicensePolicyConfigSchema.safeParse(found?.config.licenses ?? {});
+    if (!parsed.success) {
+      throw new Error(`Invalid "licenses" section in ${found!.file}: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+    }
+    // Plain ids are normalized like package licenses ("GPL-3.0" -> "GPL-3.0-only"); globs are kept as written
+    const normalize = (patterns: string[]) => patterns.map(pattern => pattern.includes('*') ? pattern : normalizeLicenseId(pattern).id);
+    return {
+      file: found?.file ?? null,
+      allow: normalize(args.allow ?? parsed.data.allow ?? []),
+      deny: normalize(args.deny ?? parsed.data.deny ?? []),
+      overrides: parsed.data.overrides ?? {},
+    };
+  }
+
+  private static evaluate(node: LicenseNode, policy: LicensePolicy): LicenseStatus {
+    if (node.type === 'license') {
+      if (LicenseChecker.matches(node.id, policy.deny)) return 'denied';
+      if (LicenseChecker.matches(node.id, policy.allow)) return 'allowed';
+      if (!node.known) return 'unknown';
+      return policy.allow.length > 0 ? 'unlisted' : 'allowed';
+    }
+    const left = LicenseChecker.STATUS_RANK.indexOf(LicenseChecker.evaluate(node.left, policy));
+    const right = LicenseChecker.STATUS_RANK.indexOf(LicenseChecker.evaluate(node.right, policy));
+    return LicenseChecker.STATUS_RANK[node.type === 'OR' ? Math.max(left, right) : Math.min(left, right)];
+  }
+
+  private static leaves(node: LicenseNode): Array<Extract<LicenseNode, { type: 'license' }>> {
+    return node.type === 'license' ? [node] : [...LicenseChecker.leaves(node.left), ...LicenseChecker.leaves(node.right)];
+  }
+
+  // Case-insensitive match against ids and globs; "Apache-2.0+" also matches "Apache-2.0"
+  private static matches(id: string, patterns: string[]): boolean {
+    const candidates = [id, id.replace(/\+$/, '')];
+    return patterns.some(pattern => {
+      const regex = new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`, 'i');
+      return candidates.some(candidate => regex.test(candidate));
+    });
+  }
+
+  private static csvReport(packages: Array<Record<string, any>>): string {
+    const cell = (value: unknown) => {
+      const text = value === null || value === undefined ? '' : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const rows = packages.map(pkg => [pkg.name, pkg.version, pkg.expression, pkg.status, pkg.dev, pkg.licenseSource].map(cell).join(','));
+    return ['name,version,license,status,dev,source', ...rows].join('\n') + '\n';
+  }
+
+  private static markdownReport(packages: Array<Record<string, any>>, licenses: Record<string, number>): string {
+    const cell = (value: unknown) => String(value ?? '').replace(/\|/g, '\\|');
+    const lines = ['# Third-party licenses', '', `${packages.length} packages.`, '', '## Licenses', '', '| License | Packages |', '| --- | --- |'];
+    for (const [license, count] of Object.entries(licenses).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))) {
+      lines.push(`| ${cell(license)} | ${count} |`);
+    }
+    const flagged = packages.filter(pkg => pkg.status !== 'allowed');
+    if (flagged.length > 0) {
+      lines.push('', '## Flagged', '', '| Package | Version | License | Status | Detail |', '| --- | --- | --- | --- | --- |');
+      for (const pkg of flagged) lines.push(`| ${cell(pkg.name)} | ${pkg.version} | ${cell(pkg.expression ?? '')} | ${pkg.status} | ${cell(pkg.detail)} |`);
+    }
+    lines.push('', '## Packages', '', '| Package | Version | License | Dev |', '| --- | --- | --- | --- |');
+    for (const pkg of packages) lines.push(`| ${cell(pkg.name)} | ${pkg.version} | ${cell(pkg.expression ?? '')} | ${pkg.dev ? 'yes' : ''} |`);
+    return lines.join('\n') + '\n';
+  }
+}
+
+// Words that follow "use", "replaced by" and similar in deprecation messages without naming a package
+const REPLACEMENT_STOP_WORDS = new Set([
+  'a', 'an', 'another', 'built-in', 'builtin', 'instead', 'it', 'its', 'latest', 'modern', 'native', 'new', 'newer',
+  'node', 'npm', 'of', 'or', 'other', 'our', 'something', 'that', 'the', 'this', 'to', 'version', 'versions', 'yarn', 'your',
+]);
+const REPLACEMENT_PHRASE = /\b(?:use|using|switch(?:ed)? to|migrate to|moved to|renamed to|replaced (?:by|with)|superseded by|in favou?r of|check out|try)\s+(?:the\s+)?[`'"]?(@?[a-z0-9][\w.-]*(?:\/[\w.-]+)?)/gi;
+
+// The package a deprecation message points to ("Use @eslint/config-array instead"), if any
+function suggestedReplacement(message: string, packageName: string): string | null {
+  for (const match of message.matchAll(REPLACEMENT_PHRASE)) {
+    const candidate = match[1].replace(/[.,;:]+$/, '').replace(/(.)@[^/]*$/, '$1');
+    // npm names are lowercase; "URLSearchParams" or "v2" are APIs and versions, not packages
+    if (candidate !== candidate.toLowerCase() || /^v?\d/.test(candidate)) continue;
+    if (REPLACEMENT_STOP_WORDS.has(candidate) || candidate === packageName) continue;
+    return candidate;
+  }
+  return null;
+}
+
+type RepositoryStatus = 'ok' | 'archived' | 'missing' | 'none' | 'unchecked';
+
+// Flags dependencies whose installed versions are deprecated, that have not been published for a
+// while, or whose GitHub repository is archived or gone
+class StaleDependencyFinder {
+  private static readonly MONTH_MS = 30.44 * 24 * 60 * 60 * 1000;
+
+  constructor(
+    private lockfileInspector: LockfileInspector,
+    private npmSearcher: NpmSearcher,
+    private githubApiUrl: string,
+    private fetchTimeoutMs: number,
+  ) {}
+
+  async find(args: FindStaleDependenciesArgs, control: ToolControl = {}): Promise<{ data: any; message: string }> {
+    const packageFile = path.resolve(process.cwd(), args.packagePath || 'package.json');
+    if (!fs.existsSync(packageFile)) throw new Error(`Package file not found: ${packageFile}`);
+    const projectDir = path.dirname(packageFile);
+    const packageJson = fsExtra.readJsonSync(packageFile);
+
+    const direct = new Set<string>();
+    const versions: Record<string, Set<string>> = {};
+    for (const type of DEPENDENCY_TYPES) {
+      if (type === 'devDependencies' && args.includeDev === false) continue;
+      for (const name of Object.keys(packageJson[type] ?? {})) direct.add(name);
+    }
+    // Installed versions from the lockfile or node_modules; without either, the lowest version each range allows
+    let source: 'lockfile' | 'node_modules' | 'package.json' = 'package.json';
+    let sourcePath = packageFile;
+    try {
+      const installed = this.lockfileInspector.readInstalled(projectDir, args.source);
+      const included = args.includeDev === false
+        ? this.lockfileInspector.reachablePackages(installed, ['dependencies', 'optionalDependencies', 'peerDependencies'])
+        : new Set(Object.keys(installed.packages));
+      for (const id of included) {
+        const pkg = installed.packages[id];
+        if (id in installed.importers || !semver.valid(pkg.version)) continue;
+        if (!args.includeTransitive && !direct.has(pkg.name)) continue;
+        (versions[pkg.name] ??= new Set()).add(pkg.version);
+      }
+      source = installed.type === 'node_modules' ? 'node_modules' : 'lockfile';
+      sourcePath = installed.path;
+    } catch (error) {
+      if (args.source !== 'auto') throw error;
+      logger.debug(`Checking declared ranges only: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    for (const name of direct) {
+      if (versions[name]) continue;
+      const declared = DEPENDENCY_TYPES.map(type => packageJson[type]?.[name]).find(Boolean);
+      const range = declared ? LockfileInspector.semverRange(declared) : undefined;
+      const minimum = range ? semver.minVersion(range)?.version : undefined;
+      versions[name] = new Set(minimum ? [minimum] : []);
+    }
+
+    const names = Object.keys(versions).sort();
+    const packages: Array<Record<string, any>> = [];
+    const errors: Array<{ name: string; error: string }> = [];
+    for (const [index, name] of names.entries()) {
+      control.progress?.(index, names.length, `Checking ${name}`);
+      try {
+        const { packument } = await this.npmSearcher.fetchPackument(name, packageFile, control.signal);
+        const checkRepository = args.checkRepositories === 'all' || (args.checkRepositories === 'direct' && direct.has(name));
+        const hit = await this.inspect(name, packument, [...versions[name]], direct.has(name), checkRepository, args.monthsWithoutPublish, control.signal);
+        if (hit) packages.push(hit);
+      } catch (error) {
+        if (control.signal?.aborted) throw error;
+        errors.push({ name, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    control.progress?.(names.length, names.length, `Checked ${names.length} packages`);
+
+    const summary = {
+      deprecated: packages.filter(pkg => pkg.deprecated.length > 0).length,
+      stale: packages.filter(pkg => pkg.stale).length,
+      repository: packages.filter(pkg => ['archived', 'missing', 'none'].includes(pkg.repositoryStatus)).length,
+    };
+    // Direct dependencies first, then deprecations before the softer signals
+    packages.sort((a, b) => Number(b.direct) - Number(a.direct) || Number(b.deprecated.length > 0) - Number(a.deprecated.length > 0) || a.name.localeCompare(b.name));
+
+    let message = `Checked ${names.length} packages (${[...direct].filter(name => versions[name]).length} direct) from ${sourcePath}: `
+      + `${summary.deprecated} with deprecated versions, ${summary.stale} not published in ${args.monthsWithoutPublish} months, `
+      + `${summary.repository} with an archived or missing repository.`;
+    if (packages.length > 0) {
+      message += '\n\n' + packages.slice(0, 20).map(pkg => `- ${pkg.name}${pkg.direct ? ' (direct)' : ''}: ${pkg.reasons.join('; ')}`).join('\n');
+      if (packages.length > 20) message += `\n...and ${packages.length - 20} more`;
+    }
+    if (errors.length > 0) message += `\n\nCould not check: ${errors.map(entry => entry.name).join(', ')}.`;
+    return {
+      data: { source, path: sourcePath, checked: names.length, monthsWithoutPublish: args.monthsWithoutPublish, summary, packages, errors },
+      message,
+    };
+  }
+
+  // The findings for one package, or undefined when nothing is wrong with it
+  private async inspect(name: string, packument: any, installedVersions: string[], direct: boolean, checkRepository: boolean, monthsWithoutPublish: number, signal?: AbortSignal): Promise<Record<string, any> | undefined> {
+    const latestVersion: string | undefined = packument['dist-tags']?.latest;
+    const latest = latestVersion ? packument.versions?.[latestVersion] : undefined;
+    const deprecationOf = (version: string): string | undefined => {
+      const deprecated = packument.versions?.[version]?.deprecated;
+      return typeof deprecated === 'string' && deprecated ? deprecated : undefined;
+    };
+
+    const deprecated = semver.sort([...installedVersions])
+      .filter(version => deprecationOf(version))
+      .map(version => ({ version, message: deprecationOf(version)! }));
+    const packageDeprecated = !!(latestVersion && deprecationOf(latestVersion));
+    const replacement = deprecated.map(entry => suggestedReplacement(entry.message, name)).find(Boolean) ?? null;
+    // The newest release that is not deprecated, when the installed one is
+    const upgradeTo = deprecated.length > 0 && !packageDeprecated
+      ? semver.rsort(Object.keys(packument.versions ?? {}).filter(version => semver.valid(version) && !semver.prerelease(version) && !deprecationOf(version)))[0] ?? null
+      : null;
+
+    const publishDates = Object.entries<string>(packument.time ?? {})
+      .filter(([key]) => key !== 'created' && key !== 'modified' && packument.versions?.[key])
+      .map(([, date]) => Date.parse(date))
+      .filter(date => !Number.isNaN(date));
+    const lastPublish = publishDates.length > 0 ? Math.max(...publishDates) : null;
+    const monthsSincePublish = lastPublish === null ? null : Math.floor((Date.now() - lastPublish) / StaleDependencyFinder.MONTH_MS);
+    const stale = monthsSincePublish !== null && monthsSincePublish >= monthsWithoutPublish;
+
+    const declaredRepository = latest?.repository ?? packument.repository;
+    const repository = typeof declaredRepository === 'string' ? declaredRepository : declaredRepository?.url ?? null;
+    const repositoryStatus: RepositoryStatus = !repository ? 'none'
+      : checkRepository ? await this.repositoryStatus(repository, signal)
+      : 'unchecked';
+
+    const reasons: string[] = [];
+    for (const entry of deprecated) reasons.push(`${entry.version} is deprecated: "${entry.message}"`);
+    if (replacement) reasons.push(`suggested replacement: ${replacement}`);
+    if (packageDeprecated) reasons.push('every current release is deprecated');
+    else if (upgradeTo) reasons.push(`upgrade to ${upgradeTo}, which is not deprecated`);
+    if (stale) reasons.push(`no release in ${monthsSincePublish} months (last ${new Date(lastPublish!).toISOString().slice(0, 10)})`);
+    if (repositoryStatus === 'archived') reasons.push(`repository ${repository} is archived`);
+    if (repositoryStatus === 'missing') reasons.push(`repository ${repository} no longer exists`);
+    if (repositoryStatus === 'none' && (direct || deprecated.length > 0 || stale)) reasons.push('no repository is declared');
+    if (reasons.length === 0) return undefined;
+
+    return {
+      name,
+      direct,
+      installedVersions: semver.sort([...installedVersions]),
+      latestVersion: latestVersion ?? null,
+      deprecated,
+      packageDeprecated,
+      replacement,
+      upgradeTo,
+      lastPublish: lastPublish === null ? null : new Date(lastPublish).toISOString(),
+      monthsSincePublish,
+      stale,
+      repository,
+      repositoryStatus,
+      reasons,
+    };
+  }
+
+  // Archived or deleted GitHub repositories; other hosts are not checked
+  private async repositoryStatus(repository: string, signal?: AbortSignal): Promise<RepositoryStatus> {
+    const github = githubRepository(repository);
+    if (!github) return 'unchecked';
+    const url = `${this.githubApiUrl.replace(/\/$/, '')}/repos/${github.owner}/${github.repo}`;
+    try {
+      const response = await fetch(url, { headers: githubHeaders(), signal: timeoutSignal(this.fetchTimeoutMs, signal) });
+      if (response.status === 404) return 'missing';
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return (await response.json()).archived ? 'archived' : 'ok';
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      logger.warn(`Could not check ${url}: ${error instanceof Error ? error.message : String(error)}`);
+      return 'unchecked';
+    }
+  }
+}
+
+// Release notes for one version, cut out of a changelog file or a repository release
+interface ChangelogEntry {
+  version: string;
+  title: string;
+  date?: string;
+  body: string;
+  breaking: string[];
+  major: boolean;
+}
+
+// Changelogs between two versions of a package, from the published tarball or the repository's releases
+class ChangelogFetcher {
+  private static readonly CHANGELOG_FILE = /^(CHANGELOG|CHANGES|HISTORY|RELEASES|NEWS)(\.(md|markdown|txt|rst))?$/i;
+  private static readonly VERSION_IN_TEXT = /\bv?(\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?)\b/;
+  private static readonly BREAKING = /breaking|⚠|\bincompatib|\bmigrat/i;
+
+  constructor(private npmSearcher: NpmSearcher, private githubApiUrl: string, private fetchTimeoutMs: number) {}
+
+  async getChangelog(args: GetChangelogArgs, control: ToolControl = {}): Promise<{ data: any; message: string }> {
+    const { packageName, packagePath } = args;
+    const { packument } = await this.npmSearcher.fetchPackument(packageName, packagePath, control.signal);
+    const from = resolvePackumentVersion(packument, args.fromVersion);
+    const to = resolvePackumentVersion(packument, args.toVersion ?? 'latest');
+    if (!from) throw new Error(`Version ${args.fromVersion} of ${packageName} not found`);
+    if (!to) throw new Error(`Version ${args.toVersion ?? 'latest'} of ${packageName} not found`);
+    if (semver.gte(from, to)) throw new Error(`fromVersion (${from}) must be lower than toVersion (${to})`);
+
+    let source: 'tarball' | 'releases' | undefined;
+    let file: string | undefined;
+    let entries: ChangelogEntry[] = [];
+    if (args.source !== 'releases') {
+      const found = await this.fromTarball(packument, to, packagePath, control.signal);
+      if (found) {
+        entries = ChangelogFetcher.selectEntries(ChangelogFetcher.parseChangelog(found.text, from), from, to);
+        source = 'tarball';
+        file = found.file;
+      }
+    }
+    if (entries.length === 0 && args.source !== 'tarball') {
+      const releases = await this.fromReleases(packument, from, to, control.signal);
+      if (releases) {
+        entries = releases.entries;
+        source = 'releases';
+        file = releases.url;
+      }
+    }
+
+    // Keep the newest entries whole and drop older ones once the length budget is spent
+    let remaining = args.maxLength;
+    let truncated = false;
+    const returned = entries.filter(entry => {
+      if (remaining <= 0) {
+        truncated = true;
+        return false;
+      }
+      remaining -= entry.body.length;
+      return true;
+    });
+    const breakingVersions = returned.filter(e => e.breaking.length > 0 || e.major).map(e => e.version);
+
+    return {
+      data: { packageName, fromVersion: from, toVersion: to, source: source ?? null, file: file ?? null, breakingVersions, truncated, entries: returned },
+      message: entries.length === 0
+        ? `No changelog entries found for ${packageName} between ${from} and ${to}${file ? ` in ${file}` : ' (no changelog file in the tarball and no matching releases)'}.`
+        : `Found ${entries.length} changelog entries for ${packageName} between ${from} and ${to} from ${file}.`
+          + (breakingVersions.length ? ` Breaking changes in: ${breakingVersions.join(', ')}.` : '')
+          + (truncated ? ` Older entries were left out after ${args.maxLength} characters.` : '')
+    };
+  }
+
+  formatChangelog(result: { data: any; message: string }): string {
+    let output = `${result.message}\n`;
+    for (const entry of result.data.entries as ChangelogEntry[]) {
+      output += `\n## ${entry.title}${entry.major ? ' (major)' : ''}\n`;
+      if (entry.breaking.length > 0) {
+        output += `\n⚠️ Breaking changes:\n${entry.breaking.map(line => `- ${line}`).join('\n')}\n`;
+      }
+      output += `\n${entry.body.trim()}\n`;
+    }
+    return output;
+  }
+
+  private async fromTarball(packument: any, version: string, packagePath?: string, signal?: AbortSignal): Promise<{ file: string; text: string } | undefined> {
+    const tarballUrl = packument.versions?.[version]?.dist?.tarball;
+    if (!tarballUrl) return undefined;
+    const tarball = await this.npmSearcher.fetchTarball(tarballUrl, packagePath, signal);
+    const files = extractTarballFiles(tarball, file => ChangelogFetcher.CHANGELOG_FILE.test(file));
+    const name = Object.keys(files).sort((a, b) => /\.md$/i.test(b) ? 1 : /\.md$/i.test(a) ? -1 : 0)[0];
+    return name ? { file: `${packument.name}@${version}/${name}`, text: files[name] } : undefined;
+  }
+
+  // Repository releases (GitHub API or a compatible fixture configured with --github-api-url)
+  private async fromReleases(packument: any, from: string, to: string, signal?: AbortSignal): Promise<{ url: string; entries: ChangelogEntry[] } | undefined> {
+    // Some packuments only carry "repository" on the version manifests
+    const github = githubRepository(packument.repository ?? packument.versions?.[to]?.repository);
+    if (!github) return undefined;
+    const url = `${this.githubApiUrl.replace(/\/$/, '')}/repos/${github.owner}/${github.repo}/releases?per_page=100`;
+    try {
+      const response = await fetch(url, { headers: githubHeaders(), signal: timeoutSignal(this.fetchTimeoutMs, signal) });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const releases: any[] = await response.json();
+      const entries: ChangelogEntry[] = [];
+      for (const release of releases) {
+        // Tags like "v1.2.3" or "name@1.2.3"
+        const version = String(release.tag_name ?? '').match(ChangelogFetcher.VERSION_IN_TEXT)?.[1];
+        if (!version || !semver.valid(version)) continue;
+        const body = String(release.body ?? '');
+        entries.push({
+          version,
+          title: release.name || release.tag_name,
+          date: release.published_at?.slice(0, 10),
+          body,
+          breaking: ChangelogFetcher.findBreaking(body),
+          major: semver.major(version) > semver.major(from),
+        });
+      }
+      return { url, entries: ChangelogFetcher.selectEntries(entries, from, to) };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      logger.warn(`Could not load releases from ${url}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
+  // Split a changelog on headings that name a version ("## [1.2.0] - 2024-01-01", "# v2.0.0",
+  // or setext "1.2.0 / 2024-01-01\n===")
+  private static parseChangelog(text: string, from: string): ChangelogEntry[] {
+    const lines = text.split(/\r?\n/);
+    const headings: Array<{ line: number; level: number; title: string; version: string; skip: number }> = [];
+    let inFence = false;
+    for (let i = 0; i < lines.length; i++) {
+      if (/^\s*(```|~~~)/.test(lines[i])) inFence = !inFence;
+      if (inFence) continue;
+      const atx = lines[i].match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+      const setext = !atx && lines[i].trim() && /^\s*(=+|-+)\s*$/.test(lines[i + 1] ?? '') ? lines[i + 1].trim()[0] : undefined;
+      const title = atx ? atx[2] : setext ? lines[i].trim() : undefined;
+      const version = title?.match(ChangelogFetcher.VERSION_IN_TEXT)?.[1];
+      if (title && version && semver.valid(version)) {
+        headings.push({ line: i, level: atx ? atx[1].length : setext === '=' ? 1 : 2, title: title.replace(/^\[|\]/g, ''), version, skip: setext ? 2 : 1 });
+      }
+    }
+
+    return headings.map((heading, index) => {
+      const end = index + 1 < headings.length ? headings[index + 1].line : lines.length;
+      const body = lines.slice(heading.line + heading.skip, end).join('\n').trim();
+      return {
+        version: heading.version,
+        title: heading.title,
+        date: heading.title.match(/\d{4}-\d{2}-\d{2}/)?.[0],
+        body,
+        breaking: ChangelogFetcher.findBreaking(body),
+        major: semver.major(heading.version) > semver.major(from),
+      };
+    });
+  }
+
+  // Lines under a "Breaking changes" style heading or "* breaking:" list item, plus any line
+  // that calls itself breaking
+  private static findBreaking(body: string): string[] {
+    const breaking: string[] = [];
+    let inBreakingSection = false;
+    let breakingItemIndent: number | undefined;
+    for (const line of body.split(/\r?\n/)) {
+      const heading = line.match(/^\s*(#{1,6}\s+|\*\*)(.*?)(\*\*)?:?\s*$/);
+      if (heading) {
+        inBreakingSection = ChangelogFetcher.BREAKING.test(heading[2]);
+        breakingItemIndent = undefined;
+        continue;
+      }
+      const item = line.replace(/^\s*[-*+]\s+/, '').trim();
+      if (!item) continue;
+      const indent = line.length - line.trimStart().length;
+      if (breakingItemIndent !== undefined && indent <= breakingItemIndent) breakingItemIndent = undefined;
+      const label = line.match(/^(\s*)[-*+]\s+(.*):\s*$/);
+      if (label && ChangelogFetcher.BREAKING.test(label[2])) {
+        breakingItemIndent = label[1].length;
+        continue;
+      }
+      if (inBreakingSection || breakingItemIndent !== undefined || /BREAKING/.test(line)) breaking.push(item);
+    }
+    return breaking;
+  }
+
+  // Entries after `from` up to and including `to`, newest first, one per version
+  private static selectEntries(entries: ChangelogEntry[], from: string, to: string): ChangelogEntry[] {
+    const seen = new Set<string>();
+    return entries
+      .filter(entry => semver.gt(entry.version, from) && semver.lte(entry.version, to))
+      .sort((a, b) => semver.rcompare(a.version, b.version))
+      .filter(entry => !seen.has(entry.version) && seen.add(entry.version));
+  }
+}
+
+interface ReadmeHeading {
+  level: number;
+  title: string;
+  slug: string;
+  start: number; // character offset of the heading line
+  end: number; // where the section, including its subsections, ends
+}
+
+// Package READMEs from the registry: the packument's copy for the latest version, the tarball for
+// others, and the npmjs.com page only when neither has one
+class PackageDocsFetcher {
+  private static readonly README_FILE = /^readme(\.(md|markdown|mdx|txt|rst))?$/i;
+  private static readonly MISSING_README = 'ERROR: No README data found!';
+  private static readonly CACHE_SIZE = 20;
+
+  // Recently read READMEs, so paging through one does not download its tarball again
+  private readmes = new Map<string, { source: 'packument' | 'tarball' | 'html'; file: string | null; format: 'markdown' | 'text'; text: string }>();
+
+  constructor(private npmSearcher: NpmSearcher) {}
+
+  async getDocs(args: GetPackageDocsArgs, control: ToolControl = {}): Promise<{ data: any; message: string }> {
+    const spec = args.packageName.match(/^(@?[^@]+)@(.+)$/);
+    const packageName = spec ? spec[1] : args.packageName;
+    const requested = args.version ?? spec?.[2] ?? 'latest';
+    const { packument } = await this.npmSearcher.fetchPackument(packageName, args.packagePath, control.signal);
+    const version = resolvePackumentVersion(packument, requested);
+    if (!version) throw new Error(`Version ${requested} of ${packageName} not found`);
+
+    const readme = await this.readme(packument, version, args.packagePath, control.signal);
+    const headings = readme.format === 'markdown' ? PackageDocsFetcher.headings(readme.text) : [];
+    const toc = headings.map(({ level, title, slug }) => ({ level, title, slug }));
+    const label = `${packageName}@${version}`;
+
+    if (args.toc) {
+      const message = headings.length > 0
+        ? `README of ${label} (${readme.source}) has ${headings.length} sections:\n${headings.map(h => `${'  '.repeat(h.level - 1)}- ${h.title} (${h.slug})`).join('\n')}`
+        : `README of ${label} (${readme.source}) has no headings; it is ${readme.text.length} characters long.`;
+      return { data: { packageName, version, source: readme.source, file: readme.file, format: readme.format, toc, section: null, content: '', offset: 0, totalLength: readme.text.length, nextOffset: null }, message };
+    }
+
+    let text = readme.text;
+    let section: string | null = null;
+    if (args.section) {
+      const heading = PackageDocsFetcher.findSection(headings, args.section);
+      if (!heading) {
+        const available = headings.slice(0, 30).map(h => h.title).join(', ');
+        throw new Error(`No section "${args.section}" in the README of ${label}${available ? `. Sections: ${available}` : ' (it has no headings)'}`);
+      }
+      text = readme.text.slice(heading.start, heading.end).trim();
+      section = heading.title;
+    }
+
+    // Cut at the last line break inside the window so pages end on whole lines
+    if (args.offset > text.length) throw new Error(`offset ${args.offset} is past the end (${text.length} characters)`);
+    let end = Math.min(text.length, args.offset + args.maxLength);
+    if (end < text.length) {
+      const lineBreak = text.lastIndexOf('\n', end);
+      if (lineBreak > args.offset + args.maxLength / 2) end = lineBreak + 1;
+    }
+    const content = text.slice(args.offset, end);
+    const nextOffset = end < text.length ? end : null;
+
+    let message = content;
+    if (args.offset > 0 || nextOffset !== null) {
+      message += `\n\n[${label} README${section ? `, section "${section}"` : ''}: characters ${args.offset}-${end} of ${text.length}.`
+        + `${nextOffset !== null ? ` Call again with offset ${nextOffset} for more.` : ''}]`;
+    }
+    return {
+      data: { packageName, version, source: readme.source, file: readme.file, format: readme.format, toc, section, content, offset: args.offset, totalLength: text.length, nextOffset },
+      message,
+    };
+  }
+
+  private async readme(packument: any, version: string, packagePath?: string, signal?: AbortSignal): Promise<{ source: 'packument' | 'tarball' | 'html'; file: string | null; format: 'markdown' | 'text'; text: string }> {
+    const key = `${packument.name}@${version}`;
+    const cached = this.readmes.get(key);
+    if (cached) return cached;
+
+    const usable = (text: unknown): text is string => typeof text === 'string' && text.trim() !== '' && text.trim() !== PackageDocsFetcher.MISSING_README;
+    const manifest = packument.versions?.[version];
+    let found: { source: 'packument' | 'tarball' | 'html'; file: string | null; format: 'markdown' | 'text'; text: string } | undefined;
+    // The registry keeps the README of the latest version at the top level; old manifests carry their own
+    if (usable(manifest?.readme)) {
+      found = { source: 'packument', file: manifest.readmeFilename ?? null, format: 'markdown', text: manifest.readme };
+    } else if (version === packument['dist-tags']?.latest && usable(packument.readme)) {
+      found = { source: 'packument', file: packument.readmeFilename ?? null, format: 'markdown', text: packument.readme };
+    }
+    if (!found && manifest?.dist?.tarball) {
+      try {
+        const files = extractTarballFiles(await this.npmSearcher.fetchTarball(manifest.dist.tarball, packagePath, signal),
+          file => !file.includes('/') && PackageDocsFetcher.README_FILE.test(file));
+        const name = Object.keys(files).sort((a, b) => Number(/\.md$/i.test(b)) - Number(/\.md$/i.test(a)))[0];
+        if (name && usable(files[name])) found = { source: 'tarball', file: name, format: /\.(txt|rst)$/i.test(name) ? 'text' : 'markdown', text: files[name] };
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        logger.warn(`Could not read the tarball of ${key}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    // npmjs.com only knows packages from the public registry; others would leak private names to it
+    const registry = RegistryConfig.load(RegistryConfig.projectDirFor(packagePath)).registryFor(packument.name);
+    const publicRegistry = registry === RegistryConfig.DEFAULT_REGISTRY;
+    if (!found && publicRegistry) {
+      const url = `https://www.npmjs.com/package/${packument.name}/v/${version}`;
+      try {
+        const page = await this.npmSearcher.scrapePackagePage(url, signal);
+        if (usable(page.readme)) found = { source: 'html', file: url, format: 'text', text: page.readme };
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        logger.warn(`Could not read ${url}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    if (!found) throw new Error(`No README found for ${key}${publicRegistry ? '' : ` in ${registry} or its tarball`}`);
+
+    this.readmes.set(key, found);
+    if (this.readmes.size > PackageDocsFetcher.CACHE_SIZE) this.readmes.delete(this.readmes.keys().next().value!);
+    return found;
+  }
+
+  // ATX (# Title), setext (Title / ===) and single-line HTML (<h2>Title</h2>) headings outside code fences
+  static headings(markdown: string): ReadmeHeading[] {
+    const headings: ReadmeHeading[] = [];
+    const slugs = new Map<string, number>();
+    const lines = markdown.split('\n');
+    let offset = 0;
+    let fence: string | null = null;
+    const add = (level: number, rawTitle: string, start: number) => {
+      const title = rawTitle.replace(/<[^>]+>/g, '').replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1').replace(/[`*_]/g, '').trim();
+      if (!title) return;
+      // GitHub's anchors: lowercase, punctuation dropped, spaces to dashes, numbered when repeated
+      const base = title.toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu, '').trim().replace(/\s/g, '-');
+      const seen = slugs.get(base) ?? 0;
+      slugs.set(base, seen + 1);
+      headings.push({ level, title, slug: seen ? `${base}-${seen}` : base, start, end: markdown.length });
+    };
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+      if (fenceMatch) {
+        if (!fence) fence = fenceMatch[1][0];
+        else if (fenceMatch[1][0] === fence) fence = null;
+      } else if (!fence) {
+        const atx = line.match(/^\s{0,3}(#{1,6})\s+(.*?)(\s+#+)?\s*$/);
+        const html = line.match(/^\s*<h([1-6])[^>]*>(.*?)<\/h\1>/i);
+        const next = lines[i + 1];
+        if (atx) add(atx[1].length, atx[2], offset);
+        else if (html) add(Number(html[1]), html[2], offset);
+        else if (line.trim() && next !== undefined && /^\s{0,3}(=+|-+)\s*$/.test(next) && !/^\s{0,3}[-*+>]/.test(line)) add(next.trim()[0] === '=' ? 1 : 2, line, offset);
+      }
+      offset += line.length + 1;
+    }
+    // A section runs until the next heading of the same or a higher level
+    for (const [index, heading] of headings.entries()) {
+      const next = headings.slice(index + 1).find(other => other.level <= heading.level);
+      if (next) heading.end = next.start;
+    }
+    return headings;
+  }
+
+  // By slug or title, exactly first, then the first title containing the text
+  private static findSection(headings: ReadmeHeading[], wanted: string): ReadmeHeading | undefined {
+    const text = wanted.trim().replace(/^#/, '').toLowerCase();
+    return headings.find(h => h.slug === text || h.title.toLowerCase() === text)
+      ?? headings.find(h => h.title.toLowerCase().includes(text));
+  }
+}
+
+// What a range or dist-tag installs today, picked the way npm does: the latest tag when it
+// satisfies the range, otherwise the highest match, passing over deprecated versions and
+// versions whose engines.node excludes the project's Node range while better ones exist
+class VersionResolver {
+  constructor(private npmSearcher: NpmSearcher) {}
+
+  async resolve(args: ResolveVersionArgs, control: ToolControl = {}): Promise<{ data: any; message: string }> {
+    const spec = args.packageName.match(/^(@?[^@]+)@(.+)$/);
+    const packageName = spec ? spec[1] : args.packageName;
+    const requested = (args.range ?? spec?.[2] ?? 'latest').trim() || 'latest';
+    const packageFile = path.resolve(process.cwd(), args.packagePath || 'package.json');
+    const nodeRange = readProjectNodeRange(path.dirname(packageFile));
+    const { packument } = await this.npmSearcher.fetchPackument(packageName, args.packagePath, control.signal);
+
+    const time: Record<string, string> = packument.time ?? {};
+    const distTagVersions: Record<string, string> = packument['dist-tags'] ?? {};
+    const describe = (version: string) => {
+      const manifest = packument.versions?.[version] ?? {};
+      const enginesNode = typeof manifest.engines?.node === 'string' ? manifest.engines.node : null;
+      return {
+        version,
+        published: time[version] ?? null,
+        prerelease: semver.prerelease(version) !== null,
+        deprecated: typeof manifest.deprecated === 'string' && manifest.deprecated ? manifest.deprecated : null,
+        engines: enginesNode,
+        compatible: args.respectEngines ? nodeRangeCompatible(nodeRange.range, enginesNode ?? undefined) : null,
+        tags: Object.keys(distTagVersions).filter(tag => distTagVersions[tag] === version),
+      };
+    };
+    const all = semver.rsort(Object.keys(packument.versions ?? {}).filter(version => semver.valid(version))).map(describe);
+    const distTags = Object.entries(distTagVersions).map(([tag, version]) => ({ tag, version, published: time[version] ?? null }));
+
+    let resolved: ReturnType<typeof describe> | null = null;
+    let reason: string;
+    const passedOver: { version: string; reason: string }[] = [];
+    if (distTagVersions[requested]) {
+      resolved = all.find(entry => entry.version === distTagVersions[requested]) ?? describe(distTagVersions[requested]);
+      reason = `dist-tag ${requested}`;
+    } else if (semver.validRange(requested)) {
+      // Prereleases only match when the range names one, as in npm
+      const candidates = all.filter(entry => semver.satisfies(entry.version, requested, { includePrerelease: args.includePrerelease }));
+      const usable = (entry: ReturnType<typeof describe>) => !entry.deprecated && entry.compatible !== false;
+      const latest = candidates.find(entry => entry.version === distTagVersions.latest);
+      if (latest && usable(latest)) {
+        resolved = latest;
+        reason = `latest (${latest.version}) satisfies ${requested}`;
+      } else {
+        resolved = candidates.find(usable) ?? candidates.find(entry => entry.compatible !== false) ?? candidates[0] ?? null;
+        reason = resolved ? `highest version matching ${requested}` : `no published version matches ${requested}`;
+        for (const entry of candidates) {
+          if (entry === resolved) break;
+          passedOver.push({
+            version: entry.version,
+            reason: entry.deprecated ? `deprecated: ${entry.deprecated}` : `requires node ${entry.engines}, project uses ${nodeRange.range}`,
+          });
+        }
+        if (resolved?.deprecated) reason += '; every match is deprecated';
+        if (resolved?.compatible === false) reason += `; no match supports node ${nodeRange.range}`;
+      }
+    } else {
+      throw new Error(`"${requested}" is neither a dist-tag of ${packageName} (${Object.keys(distTagVersions).join(', ') || 'none'}) nor a valid semver range`);
+    }
+
+    const listed = all.filter(entry => args.includePrerelease || !entry.prerelease || entry.tags.length > 0);
+    const versions = listed.slice(0, args.limit);
+
+    const date = (published: string | null) => published ? published.slice(0, 10) : 'unknown date';
+    let message = resolved
+      ? `${packageName}@${requested} resolves to ${resolved.version} (${reason}), published ${date(resolved.published)}.`
+      : `${packageName}@${requested}: ${reason}.`;
+    if (resolved?.deprecated) message += `\n⚠️ ${resolved.version} is deprecated: ${resolved.deprecated}`;
+    if (passedOver.length > 0) {
+      message += `\n\nPassed over:\n${passedOver.slice(0, 10).map(entry => `- ${entry.version}: ${entry.reason}`).join('\n')}`;
+      if (passedOver.length > 10) message += `\n...and ${passedOver.length - 10} more`;
+    }
+    message += `\n\nDist-tags:\n${distTags.map(tag => `- ${tag.tag}: ${tag.version} (${date(tag.published)})`).join('\n')}`;
+    message += `\n\nVersions (newest first${args.includePrerelease ? '' : ', prereleases hidden unless tagged'}):\n`
+      + versions.map(entry => `- ${entry.version} (${date(entry.published)})`
+        + (entry.tags.length ? ` [${entry.tags.join(', ')}]` : '')
+        + (entry.deprecated ? ' ⚠️ deprecated' : '')
+        + (entry.compatible === false ? ` ⛔ node ${entry.engines}` : '')).join('\n');
+    if (listed.length > versions.length) message += `\n...and ${listed.length - versions.length} more`;
+
+    return {
+      data: {
+        packageName,
+        requested,
+        resolved: resolved?.version ?? null,
+        reason,
+        published: resolved?.published ?? null,
+        deprecated: resolved?.deprecated ?? null,
+        passedOver,
+        node: args.respectEngines ? nodeRange : null,
+        distTags,
+        versions,
+        totalVersions: listed.length,
+      },
+      message,
+    };
+  }
+}
+
+// engines.node of each direct dependency's installed, wanted and latest versions against the
+// Node range the project runs on, with the newest versions that still support it
+class EnginesChecker {
+  constructor(private lockfileInspector: LockfileInspector, private npmSearcher: NpmSearcher) {}
+
+  async check(args: CheckEnginesArgs, control: ToolControl = {}): Promise<{ data: any; message: string }> {
+    const packageFile = path.resolve(process.cwd(), args.packagePath || 'package.json');
+    if (!fs.existsSync(packageFile)) throw new Error(`Package file not found: ${packageFile}`);
+    const projectDir = path.dirname(packageFile);
+    const packageJson = fsExtra.readJsonSync(packageFile);
+    const node = readProjectNodeRange(projectDir);
+    const { versions: installed, path: installedFrom } = this.installedVersions(projectDir, args.source);
+
+    const declared: Array<{ name: string; type: string; range: string }> = [];
+    for (const type of DEPENDENCY_TYPES) {
+      if (type === 'devDependencies' && !args.includeDev) continue;
+      for (const [name, range] of Object.entries<string>(packageJson[type] ?? {})) {
+        if (!declared.some(dep => dep.name === name)) declared.push({ name, type, range });
+      }
+    }
+
+    const dependencies: EnginesDependency[] = [];
+    const errors: Array<{ name: string; error: string }> = [];
+    for (const [index, dep] of declared.entries()) {
+      control.progress?.(index, declared.length, `Checking ${dep.name}`);
+      // npm: aliases resolve against the aliased package
+      const alias = dep.range.match(/^npm:(@?[^@]+)(?:@(.*))?$/);
+      const packageName = alias ? alias[1] : dep.name;
+      const range = LockfileInspector.semverRange(alias ? alias[2] || '*' : dep.range);
+      if (!range) continue; // git, file and workspace dependencies have no registry versions
+      try {
+        const { packument } = await this.npmSearcher.fetchPackument(packageName, packageFile, control.signal);
+        dependencies.push(this.inspect(dep, range, packument, installed[dep.name] ?? null, node.range));
+      } catch (error) {
+        if (control.signal?.aborted) throw error;
+        errors.push({ name: dep.name, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    control.progress?.(declared.length, declared.length, `Checked ${declared.length} dependencies`);
+
+    const order = { conflict: 0, capped: 1, unknown: 2, ok: 3 };
+    dependencies.sort((a, b) => order[a.status] - order[b.status] || a.name.localeCompare(b.name));
+    const count = (status: EnginesDependency['status']) => dependencies.filter(dep => dep.status === status).length;
+    const summary = { conflict: count('conflict'), capped: count('capped'), unknown: count('unknown'), ok: count('ok') };
+
+    let message = `Node ${node.range} (${node.file ? `from ${path.relative(projectDir, node.file) || node.file}` : 'the running Node version'}): `
+      + `checked ${dependencies.length} direct dependencies; ${summary.conflict} conflicts, ${summary.capped} whose latest version needs a newer Node, ${summary.unknown} unknown.`;
+    const flagged = dependencies.filter(dep => dep.status === 'conflict' || dep.status === 'capped');
+    if (flagged.length > 0) {
+      message += '\n\n' + flagged.map(dep => `- ${dep.name} (${dep.range}): ${dep.conflicts.join('; ')}. `
+        + `Newest supporting Node ${node.range}: ${dep.newestCompatible ?? 'none'}`
+        + (dep.newestCompatibleInRange !== dep.newestCompatible ? ` (${dep.newestCompatibleInRange ?? 'none'} within ${dep.range})` : '')).join('\n');
+    }
+    if (summary.capped > 0) message += '\n\nUse respectEngines on check_updates or upgrade_packages to stop at those versions.';
+    if (errors.length > 0) message += `\n\nCould not check ${errors.length} packages: ${errors.map(e => e.name).join(', ')}`;
+
+    return { data: { node, installedFrom, summary, dependencies, errors }, message };
+  }
+
+  private inspect(dep: { name: string; type: string; range: string }, range: string, packument: any, installedVersion: string | null, projectRange: string): EnginesDependency {
+    const describe = (version: string | null | undefined) => {
+      if (!version || !packument.versions?.[version]) return null;
+      const enginesNode = packument.versions[version].engines?.node;
+      return { version, engines: typeof enginesNode === 'string' ? enginesNode : null, compatible: nodeRangeCompatible(projectRange, typeof enginesNode === 'string' ? enginesNode : undefined) };
+    };
+    const installed = describe(installedVersion);
+    const wanted = describe(resolvePackumentVersion(packument, range));
+    const latest = describe(packument['dist-tags']?.latest);
+
+    const conflicts: string[] = [];
+    for (const [label, check] of [['installed', installed], ['wanted', wanted], ['latest', latest]] as const) {
+      if (check?.compatible === false) conflicts.push(`${label} ${check.version} requires node ${check.engines}`);
+    }
+    const checks = [installed, wanted, latest].filter(check => check !== null);
+    const status: EnginesDependency['status'] = installed?.compatible === false || wanted?.compatible === false ? 'conflict'
+      : latest?.compatible === false ? 'capped'
+      : checks.some(check => check.compatible === null) ? 'unknown'
+      : 'ok';
+    return {
+      name: dep.name,
+      type: dep.type,
+      range: dep.range,
+      installed,
+      wanted,
+      latest,
+      status,
+      conflicts,
+      newestCompatible: status === 'ok' ? latest?.version ?? null : newestNodeCompatible(packument, projectRange),
+      newestCompatibleInRange: status === 'ok' ? wanted?.version ?? null : newestNodeCompatible(packument, projectRange, range),
+    };
+  }
+
+  // Installed versions of the direct dependencies; none when nothing is installed yet
+  private installedVersions(projectDir: string, source: CheckEnginesArgs['source']): { versions: Record<string, string>; path: string | null } {
+    let installed: LockfileData;
+    try {
+      installed = this.lockfileInspector.readInstalled(projectDir, source);
+    } catch (error) {
+      if (source !== 'auto') throw error;
+      return { versions: {}, path: null };
+    }
+    const importer = installed.importers[path.relative(path.dirname(installed.path), projectDir).split(path.sep).join('/') || '.'];
+    const versions: Record<string, string> = {};
+    for (const [name, dep] of Object.entries(importer?.dependencies ?? {})) {
+      if (dep.id && installed.packages[dep.id]) versions[name] = installed.packages[dep.id].version;
+    }
+    return { versions, path: installed.path };
+  }
+}
+
+// Side-by-side health signals for candidate packages, from their packuments and the downloads API
+class PackageComparer {
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+  private static readonly CADENCE_RELEASES = 10;
+
+  constructor(private npmSearcher: NpmSearcher) {}
+
+  async compare(args: ComparePackagesArgs, control: ToolControl = {}): Promise<{ data: any; message: string }> {
+    const names = [...new Set(args.packageNames.map(name => name.trim()).filter(Boolean))];
+    if (names.length < 2) throw new Error('Provide at least two different package names to compare');
+
+    let downloads: Record<string, number | null> = {};
+    try {
+      downloads = await this.npmSearcher.fetchWeeklyDownloads(names, control.signal);
+    } catch (error) {
+      if (control.signal?.aborted) throw error;
+      logger.warn(`Download counts unavailable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const packages: Array<Record<string, any>> = [];
+    const notFound: Array<{ name: string; error: string }> = [];
+    for (const [index, name] of names.entries()) {
+      control.progress?.(index, names.length, `Reading ${name}`);
+      try {
+        const { packument } = await this.npmSearcher.fetchPackument(name, args.packagePath, control.signal);
+        packages.push({ ...(await this.describe(name, packument, args.packagePath, control.signal)), weeklyDownloads: downloads[name] ?? null });
+      } catch (error) {
+        if (control.signal?.aborted) throw error;
+        notFound.push({ name, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    control.progress?.(names.length, names.length, `Compared ${packages.length} packages`);
+    if (packages.length === 0) throw new Error(`None of the packages could be read: ${notFound.map(entry => `${entry.name} (${entry.error})`).join(', ')}`);
+
+    // The package with the best value of each signal, when more than one package has it
+    const best = (value: (pkg: Record<string, any>) => number | null | undefined, lowest = false): string | null => {
+      const ranked = packages.filter(pkg => typeof value(pkg) === 'number').sort((a, b) => lowest ? value(a)! - value(b)! : value(b)! - value(a)!);
+      return ranked.length > 1 ? ranked[0].name : null;
+    };
+    const highlights = {
+      mostDownloaded: best(pkg => pkg.weeklyDownloads),
+      mostRecentRelease: best(pkg => pkg.lastPublish ? Date.parse(pkg.lastPublish) : null),
+      mostReleasesLastYear: best(pkg => pkg.releasesLastYear),
+      fewestDependencies: best(pkg => pkg.dependencies, true),
+      smallest: best(pkg => pkg.unpackedSize, true),
+    };
+
+    const message = [
+      `Compared ${packages.length} packages${notFound.length ? ` (not found: ${notFound.map(entry => entry.name).join(', ')})` : ''}.`,
+      '',
+      PackageComparer.table(packages),
+      '',
+      Object.entries(highlights).filter(([, name]) => name).map(([signal, name]) => `${signal}: ${name}`).join(', '),
+    ].join('\n').trim();
+    return { data: { packages, highlights, notFound }, message };
+  }
+
+  private async describe(name: string, packument: any, packagePath: string | undefined, signal?: AbortSignal): Promise<Record<string, any>> {
+    const latestVersion: string = packument['dist-tags']?.latest ?? Object.keys(packument.versions ?? {}).pop();
+    const manifest = packument.versions?.[latestVersion];
+    if (!manifest) throw new Error(`No published versions of ${name}`);
+    const time: Record<string, string> = packument.time ?? {};
+
+    const releases = Object.keys(packument.versions)
+      .filter(version => time[version] && !semver.prerelease(version))
+      .map(version => Date.parse(time[version]))
+      .filter(date => !Number.isNaN(date))
+      .sort((a, b) => a - b);
+    const recent = releases.slice(-(PackageComparer.CADENCE_RELEASES + 1));
+    const intervals = recent.slice(1).map((date, i) => (date - recent[i]) / PackageComparer.DAY_MS).sort((a, b) => a - b);
+    const median = intervals.length === 0 ? null
+      : intervals.length % 2 ? intervals[(intervals.length - 1) / 2]
+      : (intervals[intervals.length / 2 - 1] + intervals[intervals.length / 2]) / 2;
+    const license = manifestLicense(manifest) ?? manifestLicense(packument);
+    const repository = typeof manifest.repository === 'string' ? manifest.repository : manifest.repository?.url;
+
+    return {
+      name,
+      description: manifest.description ?? packument.description ?? null,
+      latestVersion,
+      latestPublished: time[latestVersion] ?? null,
+      lastPublish: releases.length ? new Date(releases[releases.length - 1]).toISOString() : null,
+      firstPublished: time.created ?? null,
+      releasesLastYear: releases.filter(date => date > Date.now() - 365 * PackageComparer.DAY_MS).length,
+      medianReleaseIntervalDays: median === null ? null : Math.round(median),
+      versionCount: Object.keys(packument.versions).length,
+      maintainers: Array.isArray(packument.maintainers) ? packument.maintainers.length : null,
+      dependencies: Object.keys(manifest.dependencies ?? {}).length,
+      unpackedSize: typeof manifest.dist?.unpackedSize === 'number' ? manifest.dist.unpackedSize : null,
+      fileCount: typeof manifest.dist?.fileCount === 'number' ? manifest.dist.fileCount : null,
+      license: license ? formatLicenseExpression(parseLicenseExpression(license)) : null,
+      ...(await this.typesOf(name, manifest, packagePath, signal)),
+      deprecated: typeof manifest.deprecated === 'string' ? manifest.deprecated || 'deprecated' : null,
+      homepage: manifest.homepage ?? packument.homepage ?? null,
+      repository: repository ?? null,
+    };
+  }
+
+  // Types shipped in the package (types/typings or a "types" export condition), else a current @types package
+  private async typesOf(name: string, manifest: any, packagePath: string | undefined, signal?: AbortSignal): Promise<{ types: 'bundled' | 'definitelyTyped' | 'none'; typesPackage: string | null }> {
+    const hasTypesCondition = (exports: unknown): boolean => !!exports && typeof exports === 'object'
+      && Object.entries(exports).some(([key, value]) => key === 'types' || hasTypesCondition(value));
+    if (name.startsWith('@types/') || manifest.types || manifest.typings || hasTypesCondition(manifest.exports)) {
+      return { types: 'bundled', typesPackage: null };
+    }
+    const typesPackage = `@types/${name.startsWith('@') ? name.slice(1).replace('/', '__') : name}`;
+    try {
+      const { packument } = await this.npmSearcher.fetchPackument(typesPackage, packagePath, signal);
+      // Stub @types packages are deprecated once the library ships its own types
+      if (!packument.versions?.[packument['dist-tags']?.latest]?.deprecated) return { types: 'definitelyTyped', typesPackage };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+    }
+    return { types: 'none', typesPackage: null };
+  }
+
+  // One row per signal, one column per package
+  private static table(packages: Array<Record<string, any>>): string {
+    const date = (iso: string | null) => iso ? iso.slice(0, 10) : 'unknown';
+    const rows: Array<[string, (pkg: Record<string, any>) => string]> = [
+      ['Weekly downloads', pkg => pkg.weeklyDownloads === null ? 'unknown' : pkg.weeklyDownloads.toLocaleString('en-US')],
+      ['Latest version', pkg => `${pkg.latestVersion} (${date(pkg.latestPublished)})`],
+      ['Last publish', pkg => date(pkg.lastPublish)],
+      ['Releases in the last year', pkg => String(pkg.releasesLastYear)],
+      ['Median days between releases', pkg => pkg.medianReleaseIntervalDays === null ? 'n/a' : String(pkg.medianReleaseIntervalDays)],
+      ['Maintainers', pkg => pkg.maintainers === null ? 'unknown' : String(pkg.maintainers)],
+      ['Dependencies', pkg => String(pkg.dependencies)],
+      ['Unpacked size', pkg => pkg.unpackedSize === null ? 'unknown' : formatBytes(pkg.unpackedSize)],
+      ['License', pkg => pkg.license ?? 'none'],
+      ['TypeScript types', pkg => pkg.types === 'definitelyTyped' ? pkg.typesPackage : pkg.types],
+      ['Deprecated', pkg => pkg.deprecated ? `yes: ${pkg.deprecated}` : 'no'],
+    ];
+    const cell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+    return [
+      `| | ${packages.map(pkg => cell(pkg.name)).join(' | ')} |`,
+      `| --- | ${packages.map(() => '---').join(' | ')} |`,
+      ...rows.map(([label, value]) => `| ${label} | ${packages.map(pkg => cell(value(pkg))).join(' | ')} |`),
+    ].join('\n');
+  }
+}
+
+// One resolved package in a simulated install
+interface InstallSizeNode {
+  name: string;
+  version: string;
+  unpackedSize: number | null;
+  fileCount: number | null;
+  existing: boolean; // the project's lockfile already has this version
+  dependencies: Record<string, string>;
+  children: string[]; // keys (name@version) of the resolved dependencies
+}
+
+// Estimates what installing a package costs: resolves its dependency tree from packuments the way a
+// deduplicating install would, reusing versions the project has locked, and totals the published sizes
+class InstallSizeAnalyzer {
+  private static readonly LARGEST = 10;
+
+  constructor(private lockfileInspector: LockfileInspector, private npmSearcher: NpmSearcher) {}
+
+  async analyze(args: AnalyzeInstallSizeArgs, control: ToolControl = {}): Promise<{ data: any; message: string }> {
+    const spec = args.packageName.match(/^(@?[^@]+)@(.+)$/);
+    const packageName = spec ? spec[1] : args.packageName;
+    const range = args.range ?? spec?.[2] ?? 'latest';
+    const packageFile = path.resolve(process.cwd(), args.packagePath || 'package.json');
+    const { lockfile, versions } = this.lockedVersions(path.dirname(packageFile), !!args.packagePath);
+
+    const { analysis, keys } = await this.resolveTree(packageName, range, versions, args, control);
+    const other = args.compareTo ? await this.resolveTree(packageName, args.compareTo, versions, args, control) : null;
+    const compareTo = other?.analysis ?? null;
+    const difference = other ? InstallSizeAnalyzer.difference(analysis, keys, other.analysis, other.keys) : null;
+
+    const label = `${packageName}@${analysis.version}`;
+    let message = `${label} installs ${analysis.packages}${analysis.truncated ? '+' : ''} packages, ${formatBytes(analysis.unpackedSize)} unpacked (${analysis.fileCount} files).`;
+    message += lockfile
+      ? ` ${analysis.added.packages} of them (${formatBytes(analysis.added.unpackedSize)}) are not in ${lockfile} yet.`
+      : ' No lockfile was found, so every package counts as new.';
+    if (analysis.subtrees.length > 0) {
+      message += ` Largest subtrees: ${analysis.subtrees.slice(0, 3).map((tree: Record<string, any>) => `${tree.name} (${formatBytes(tree.unpackedSize)}, ${tree.packages} packages)`).join(', ')}.`;
+    }
+    if (analysis.unknownSize.length > 0) message += ` ${analysis.unknownSize.length} packages publish no size and count as 0.`;
+    if (analysis.unresolved.length > 0) message += ` Not resolved: ${analysis.unresolved.join(', ')}.`;
+    if (compareTo && difference) {
+      const signed = (bytes: number) => `${bytes < 0 ? '-' : '+'}${formatBytes(Math.abs(bytes))}`;
+      message += ` Compared with ${packageName}@${compareTo.version}: ${difference.packages >= 0 ? '+' : ''}${difference.packages} packages, ${signed(difference.unpackedSize)} unpacked, ${signed(difference.addedUnpackedSize)} added to the project.`;
+    }
+    return { data: { lockfile, ...analysis, compareTo, difference }, message };
+  }
+
+  // Versions the project already has, by package name; none when there is no lockfile or node_modules
+  private lockedVersions(projectDir: string, explicit: boolean): { lockfile: string | null; versions: Record<string, Set<string>> } {
+    const versions: Record<string, Set<string>> = {};
+    if (!fs.existsSync(path.join(projectDir, 'package.json'))) {
+      if (explicit) throw new Error(`Package file not found: ${path.join(projectDir, 'package.json')}`);
+      return { lockfile: null, versions };
+    }
+    try {
+      const installed = this.lockfileInspector.readInstalled(projectDir);
+      for (const pkg of Object.values(installed.packages)) (versions[pkg.name] ??= new Set()).add(pkg.version);
+      return { lockfile: installed.path, versions };
+    } catch (error) {
+      logger.debug(`No installed packages for ${projectDir}: ${error instanceof Error ? error.message : String(error)}`);
+      return { lockfile: null, versions };
+    }
+  }
+
+  private async resolveTree(packageName: string, range: string, locked: Record<string, Set<string>>, args: AnalyzeInstallSizeArgs, control: ToolControl): Promise<{ analysis: Record<string, any>; keys: string[] }> {
+    const nodes = new Map<string, InstallSizeNode>();
+    const chosen: Record<string, string[]> = {}; // versions already placed in this tree, by name
+    const unresolved: string[] = [];
+    let truncated = false;
+
+    const packuments = new Map<string, Promise<any>>();
+    const packumentOf = (name: string): Promise<any> => {
+      if (!packuments.has(name)) packuments.set(name, this.npmSearcher.fetchPackument(name, args.packagePath, control.signal).then(result => result.packument));
+      return packuments.get(name)!;
+    };
+    // "npm:real-name@^1" aliases install another package under the dependency's name
+    const target = (name: string, spec: string): { name: string; spec: string } => {
+      if (!spec.startsWith('npm:')) return { name, spec };
+      const aliased = spec.slice(4);
+      const at = aliased.lastIndexOf('@');
+      return at > 0 ? { name: aliased.slice(0, at), spec: aliased.slice(at + 1) } : { name: aliased, spec: 'latest' };
+    };
+
+    // Pick a version for one dependency and add its node; returns the node key, or null when it cannot be resolved
+    const resolve = async (dependency: string, declared: string): Promise<string | null> => {
+      const { name, spec } = target(dependency, declared);
+      let packument: any;
+      try {
+        packument = await packumentOf(name);
+      } catch (error) {
+        if (control.signal?.aborted) throw error;
+        unresolved.push(`${dependency}@${declared}`);
+        return null;
+      }
+      const tagged: string | undefined = packument['dist-tags']?.[spec];
+      const validRange = semver.validRange(spec);
+      if (!tagged && !validRange) {
+        unresolved.push(`${dependency}@${declared}`);
+        return null;
+      }
+      // Reuse a copy already in this tree or locked in the project, as a deduplicating install would
+      const satisfies = (version: string) => tagged ? version === tagged : semver.satisfies(version, validRange!);
+      const reusable = [...(chosen[name] ?? []), ...(locked[name] ?? [])].filter(version => semver.valid(version) && satisfies(version));
+      const latest: string | undefined = packument['dist-tags']?.latest;
+      const version = tagged
+        ?? (reusable.length > 0 ? semver.rsort(reusable)[0] : undefined)
+        ?? (latest && satisfies(latest) ? latest : semver.maxSatisfying(Object.keys(packument.versions ?? {}), validRange!));
+      const manifest = version ? packument.versions?.[version] : undefined;
+      if (!version || !manifest) {
+        unresolved.push(`${dependency}@${declared}`);
+        return null;
+      }
+
+      const key = `${name}@${version}`;
+      if (nodes.has(key)) return key;
+      if (nodes.size >= args.maxPackages) {
+        truncated = true;
+        return null;
+      }
+      const peers = args.includePeers
+        ? Object.fromEntries(Object.entries<string>(manifest.peerDependencies ?? {}).filter(([peer]) => !manifest.peerDependenciesMeta?.[peer]?.optional))
+        : {};
+      nodes.set(key, {
+        name,
+        version,
+        unpackedSize: typeof manifest.dist?.unpackedSize === 'number' ? manifest.dist.unpackedSize : null,
+        fileCount: typeof manifest.dist?.fileCount === 'number' ? manifest.dist.fileCount : null,
+        existing: locked[name]?.has(version) ?? false,
+        dependencies: { ...peers, ...(args.includeOptional ? manifest.optionalDependencies : {}), ...manifest.dependencies },
+        children: [],
+      });
+      (chosen[name] ??= []).push(version);
+      return key;
+    };
+
+    const rootKey = await resolve(packageName, range);
+    if (!rootKey) throw new Error(`No version of ${packageName} matches ${range}`);
+    // Breadth first, so shallow dependencies claim versions first like a hoisting install
+    let level = [rootKey];
+    while (level.length > 0) {
+      const next: string[] = [];
+      for (const key of level) {
+        const node = nodes.get(key)!;
+        const dependencies = Object.entries(node.dependencies);
+        // Warm the packuments of this level together; failures surface in resolve()
+        await Promise.all(dependencies.map(([name, spec]) => packumentOf(target(name, spec).name).catch(() => undefined)));
+        if (control.signal?.aborted) throw control.signal.reason;
+        for (const [name, spec] of dependencies) {
+          const known = nodes.size;
+          const childKey = await resolve(name, spec);
+          if (!childKey) continue;
+          if (!node.children.includes(childKey)) node.children.push(childKey);
+          if (nodes.size > known) next.push(childKey);
+        }
+      }
+      control.progress?.(nodes.size, nodes.size + next.length, `Resolved ${nodes.size} packages of ${packageName}`);
+      level = next;
+    }
+
+    const reachable = (from: string): Set<string> => {
+      const seen = new Set<string>([from]);
+      const stack = [from];
+      while (stack.length > 0) {
+        for (const child of nodes.get(stack.pop()!)!.children) {
+          if (!seen.has(child)) {
+            seen.add(child);
+            stack.push(child);
+          }
+        }
+      }
+      return seen;
+    };
+    const totals = (keys: Iterable<string>) => {
+      const result = { packages: 0, unpackedSize: 0, fileCount: 0 };
+      for (const key of keys) {
+        const node = nodes.get(key)!;
+        result.packages++;
+        result.unpackedSize += node.unpackedSize ?? 0;
+        result.fileCount += node.fileCount ?? 0;
+      }
+      return result;
+    };
+
+    // Each direct dependency's subtree, and the part of it no other direct dependency also pulls in
+    const root = nodes.get(rootKey)!;
+    const subtreeKeys = root.children.map(child => [...reachable(child)].filter(key => key !== rootKey));
+    const subtrees = root.children.map((child, index) => {
+      const shared = new Set(subtreeKeys.flatMap((keys, other) => other === index ? [] : keys));
+      const node = nodes.get(child)!;
+      return {
+        name: node.name,
+        version: node.version,
+        ...totals(subtreeKeys[index]),
+        exclusiveUnpackedSize: totals(subtreeKeys[index].filter(key => !shared.has(key))).unpackedSize,
+      };
+    }).sort((a, b) => b.unpackedSize - a.unpackedSize);
+
+    const all = [...nodes.values()];
+    const analysis = {
+      packageName,
+      range,
+      version: root.version,
+      ...totals(nodes.keys()),
+      added: totals([...nodes.keys()].filter(key => !nodes.get(key)!.existing)),
+      alreadyInstalled: all.filter(node => node.existing).length,
+      subtrees,
+      largest: all
+        .filter(node => node.unpackedSize !== null)
+        .sort((a, b) => b.unpackedSize! - a.unpackedSize!)
+        .slice(0, InstallSizeAnalyzer.LARGEST)
+        .map(node => ({ name: node.name, version: node.version, unpackedSize: node.unpackedSize!, fileCount: node.fileCount, existing: node.existing })),
+      unknownSize: all.filter(node => node.unpackedSize === null).map(node => `${node.name}@${node.version}`),
+      unresolved,
+      truncated,
     };
+    return { analysis, keys: [...nodes.keys()] };
   }
 
-  async upgradePackages(options: UpgradePackagesArgs): Promise<{ data: any; message: string }> {
-    const packageFile = this.resolvePackagePath(options.packagePath);
-    const ncuBaseOptions: any = { packageFile, upgrade: true };
-    if (options.upgradeType) ncuBaseOptions.target = options.upgradeType;
-    // ncu's interactive mode is not compatible with MCP stdio, so it's omitted.
-    if (options.peer) ncuBaseOptions.peer = true;
-    if (options.minimal) ncuBaseOptions.minimal = true;
-    if (options.packageManager) ncuBaseOptions.packageManager = options.packageManager;
-    
-    const result = await this.runNcu(ncuBaseOptions);
-    const numUpgraded = Object.keys(result).length;
+  // Positive numbers mean the analysed version costs more than the one it is compared with
+  private static difference(analysis: Record<string, any>, keys: string[], compareTo: Record<string, any>, compareKeys: string[]): Record<string, any> {
+    const names = (list: string[]) => new Set(list.map(key => key.slice(0, key.lastIndexOf('@'))));
+    const ours = names(keys);
+    const theirs = names(compareKeys);
     return {
-      data: result,
-      message: numUpgraded > 0 ? `Upgraded ${numUpgraded} dependencies.` : "No dependencies needed upgrading or were upgraded."
+      packages: analysis.packages - compareTo.packages,
+      unpackedSize: analysis.unpackedSize - compareTo.unpackedSize,
+      fileCount: analysis.fileCount - compareTo.fileCount,
+      addedUnpackedSize: analysis.added.unpackedSize - compareTo.added.unpackedSize,
+      newPackages: [...ours].filter(name => !theirs.has(name)).sort(),
+      droppedPackages: [...theirs].filter(name => !ours.has(name)).sort(),
     };
   }
+}
 
-  async filterUpdates(options: FilterUpdatesArgs): Promise<{ data: any; message: string }> {
-    const packageFile = this.resolvePackagePath(options.packagePath);
-    const ncuBaseOptions: any = { packageFile, filter: options.filter };
-    if (options.upgrade) ncuBaseOptions.upgrade = true;
-    if (options.minimal) ncuBaseOptions.minimal = true;
-    if (options.packageManager) ncuBaseOptions.packageManager = options.packageManager;
+// MCP resources: the project the server runs in (project://) and registry metadata (npm://).
+// Reads go through the same NpmSearcher and NpmCheckUpdatesHandler logic as the tools.
+class ResourceProvider {
+  private static readonly PROJECT_URIS = ['project://package.json', 'project://outdated'];
+  private static readonly WATCH_DEBOUNCE_MS = 200;
 
-    const result = await this.runNcu(ncuBaseOptions);
-    const numFound = Object.keys(result).length;
-    return {
-      data: result,
-      message: numFound > 0 
-        ? `Found ${numFound} filtered dependencies ${options.upgrade ? 'and upgraded them.' : 'with available updates.'}` 
-        : "No updates found for the filtered dependencies."
-    };
+  // Resource URIs each connected server has subscribed to
+  private subscriptions = new Map<Server, Set<string>>();
+  private watcher: fs.FSWatcher | undefined;
+  private watchTimer: NodeJS.Timeout | undefined;
+
+  constructor(private npmSearcher: NpmSearcher, private ncuHandler: NpmCheckUpdatesHandler, private projectDir: string) {}
+
+  private get packageFile(): string {
+    return path.join(this.projectDir, 'package.json');
   }
 
-  async resolveConflicts(options: ResolveConflictsArgs): Promise<{ data: any; message: string }> {
-    const packageFile = this.resolvePackagePath(options.packagePath);
-    const ncuBaseOptions: any = { packageFile, peer: true };
-    if (options.upgrade) ncuBaseOptions.upgrade = true;
-    if (options.minimal) ncuBaseOptions.minimal = true;
-    if (options.packageManager) ncuBaseOptions.packageManager = options.packageManager;
+  list(): { resources: Array<Record<string, string>> } {
+    // a server started outside its allowed roots has no project to offer
+    if (!fs.existsSync(this.packageFile) || !insideAllowedRoots(this.packageFile)) return { resources: [] };
+    const packageJson = fsExtra.readJsonSync(this.packageFile, { throws: false }) ?? {};
+    const resources: Array<Record<string, string>> = [
+      { uri: 'project://package.json', name: `${packageJson.name ?? path.basename(this.projectDir)} package.json`, description: `package.json in ${this.projectDir}`, mimeType: 'application/json' },
+      { uri: 'project://outdated', name: 'Outdated dependencies', description: 'The check_updates report for the project', mimeType: 'application/json' },
+    ];
+    // Direct dependencies are listed so clients can browse their metadata without knowing the template
+    const dependencies: Record<string, string> = {};
+    for (const section of WORKSPACE_DEPENDENCY_SECTIONS) Object.assign(dependencies, packageJson[section]);
+    for (const [name, range] of Object.entries(dependencies).sort(([a], [b]) => a.localeCompare(b))) {
+      resources.push({ uri: `npm://package/${name}`, name, description: `Registry metadata for ${name} (project range ${range})`, mimeType: 'application/json' });
+    }
+    return { resources };
+  }
 
-    const result = await this.runNcu(ncuBaseOptions);
-    const numResolved = Object.keys(result).length;
+  templates(): { resourceTemplates: Array<Record<string, string>> } {
     return {
-      data: result,
-      message: numResolved > 0 
-        ? `Attempted to resolve conflicts for ${numResolved} dependencies using the 'peer' strategy ${options.upgrade ? 'and applied changes.' : '.'}`
-        : "No conflicts found or resolved based on peer strategy."
+      resourceTemplates: [
+        { uriTemplate: 'npm://package/{name}', name: 'npm package', description: 'Registry metadata for a package: dist-tags, recent versions and publish times', mimeType: 'application/json' },
+        { uriTemplate: 'npm://package/{name}/{version}', name: 'npm package version', description: 'The published manifest of one version (an exact version, dist-tag or range)', mimeType: 'application/json' },
+      ]
     };
   }
 
-  async setVersionConstraints(options: SetVersionConstraintsArgs): Promise<{ data: any; message: string }> {
-    const packageFile = this.resolvePackagePath(options.packagePath);
-    const ncuBaseOptions: any = { packageFile, target: options.target };
-    if (options.removeRange) ncuBaseOptions.removeRange = true;
-    if (options.upgrade) ncuBaseOptions.upgrade = true;
-    if (options.minimal) ncuBaseOptions.minimal = true;
-    if (options.packageManager) ncuBaseOptions.packageManager = options.packageManager;
-    
-    const result = await this.runNcu(ncuBaseOptions);
-    const numChanged = Object.keys(result).length;
-    return {
-      data: result,
-      message: numChanged > 0 
-        ? `Applied version constraints to ${numChanged} dependencies ${options.upgrade ? 'and updated package.json.' : ' (dry run).'}`
-        : "No dependencies required changes based on the version constraints."
-    };
+  async read(uri: string): Promise<{ contents: Array<{ uri: string; mimeType: string; text: string }> }> {
+    const json = (value: any) => ({ contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(value, null, 2) }] });
+    if (ResourceProvider.PROJECT_URIS.includes(uri)) {
+      // the tools check packagePath in ToolRegistry.call; project resources skip it, so check here
+      const packageFile = sandboxPath(this.packageFile, 'Project package.json');
+      if (!fs.existsSync(packageFile)) throw new McpError(ErrorCode.InvalidParams, `No package.json in ${this.projectDir}`);
+      if (uri === 'project://package.json') {
+        return { contents: [{ uri, mimeType: 'application/json', text: fs.readFileSync(packageFile, 'utf8') }] };
+      }
+      const { data, message } = await this.ncuHandler.checkUpdates({ packagePath: packageFile });
+      return json({ message, ...data });
+    }
+
+    const parsed = ResourceProvider.parsePackageUri(uri);
+    if (!parsed) throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    const packagePath = fs.existsSync(this.packageFile) ? this.packageFile : undefined;
+    if (!parsed.version) return json(await this.npmSearcher.getPackageDetails({ packageName: parsed.name, packagePath }));
+
+    const { packument } = await this.npmSearcher.fetchPackument(parsed.name, packagePath);
+    const version = packument['dist-tags']?.[parsed.version]
+      ?? (packument.versions?.[parsed.version] ? parsed.version : semver.maxSatisfying(Object.keys(packument.versions ?? {}), parsed.version));
+    if (!version) throw new McpError(ErrorCode.InvalidParams, `Version ${parsed.version} of ${parsed.name} not found`);
+    return json(packument.versions[version]);
   }
 
-  async runDoctor(options: RunDoctorArgs): Promise<{ data: any; message: string }> {
-    const packageFile = this.resolvePackagePath(options.packagePath);
-    const ncuBaseOptions: any = { packageFile, doctor: true, upgrade: true };
-    if (options.doctorInstall) ncuBaseOptions.doctorInstall = options.doctorInstall;
-    if (options.doctorTest) ncuBaseOptions.doctorTest = options.doctorTest;
-    if (options.packageManager) ncuBaseOptions.packageManager = options.packageManager;
-    
-    const result = await this.runNcu(ncuBaseOptions);
-    if (typeof result === 'object' && Object.keys(result).length === 0) {
-      return {
-        data: {},
-        message: "Doctor mode completed. No breaking upgrades found or all dependencies are up-to-date."
-      };
+  // npm://package/<name>[/<version>], where <name> may be scoped and either segment URL-encoded
+  private static parsePackageUri(uri: string): { name: string; version?: string } | undefined {
+    const prefix = 'npm://package/';
+    if (!uri.startsWith(prefix)) return undefined;
+    const segments = uri.slice(prefix.length).split('/').filter(Boolean).map(segment => decodeURIComponent(segment));
+    if (segments.length === 0) return undefined;
+    const nameSegments = segments[0].startsWith('@') && !segments[0].includes('/') ? 2 : 1;
+    if (segments.length < nameSegments || segments.length > nameSegments + 1) return undefined;
+    return { name: segments.slice(0, nameSegments).join('/'), version: segments[nameSegments] };
+  }
+
+  subscribe(server: Server, uri: string): void {
+    if (!this.subscriptions.has(server)) this.subscriptions.set(server, new Set());
+    this.subscriptions.get(server)!.add(uri);
+    this.updateWatcher();
+  }
+
+  unsubscribe(server: Server, uri: string): void {
+    this.subscriptions.get(server)?.delete(uri);
+    this.updateWatcher();
+  }
+
+  removeServer(server: Server): void {
+    this.subscriptions.delete(server);
+    this.updateWatcher();
+  }
+
+  // Watch package.json only while someone is subscribed to a project resource. The directory is
+  // watched rather than the file so editors and our own writes that replace the file are seen.
+  private updateWatcher(): void {
+    const wanted = [...this.subscriptions.values()].some(uris => ResourceProvider.PROJECT_URIS.some(uri => uris.has(uri)));
+    if (wanted && !this.watcher) {
+      try {
+        this.watcher = fs.watch(this.projectDir, (_event, filename) => {
+          if (filename !== 'package.json') return;
+          clearTimeout(this.watchTimer);
+          this.watchTimer = setTimeout(() => this.notifyProjectChanged(), ResourceProvider.WATCH_DEBOUNCE_MS);
+        });
+        logger.debug(`Watching ${this.packageFile} for resource subscriptions`);
+      } catch (error) {
+        logger.warn(`Cannot watch ${this.projectDir}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } else if (!wanted && this.watcher) {
+      this.watcher.close();
+      this.watcher = undefined;
+      clearTimeout(this.watchTimer);
     }
-    let workingUpgrades = 0;
-    let brokenUpgrades = 0;
-    if (typeof result === 'object' && result !== null) {
-      for (const outcome of Object.values(result)) {
-        if (outcome === true) workingUpgrades++; else brokenUpgrades++;
+  }
+
+  private notifyProjectChanged(): void {
+    for (const [server, uris] of this.subscriptions) {
+      for (const uri of ResourceProvider.PROJECT_URIS) {
+        if (!uris.has(uri)) continue;
+        server.sendResourceUpdated({ uri }).catch(error => {
+          logger.warn(`Failed to send resource update for ${uri}: ${error instanceof Error ? error.message : String(error)}`);
+        });
       }
     }
-    return {
-      data: result,
-      message: `Doctor mode completed: ${workingUpgrades} working upgrades applied, ${brokenUpgrades} breaking upgrades identified.`
-    };
   }
 }
 
 // Main entrypoint code at the bottom of the file - Replace with this
-const server = new Server(
-  {
-    name: "npm-helper-mcp",
-    version: "2.0.5",
-  },
-  {
-    capabilities: {
-      tools: {}, // Will be populated by our handlers
-      resources: {}, // Enable resources capability
+// Create an instance of our handlers. They are shared by every connected client.
+const packumentCache = new PackumentCache(cliOptions.cacheDir, cliOptions.cacheTtl * 1000, cliOptions.cache, !!cliOptions.offline, cliOptions.mirrorDir);
+const npmSearcher = new NpmSearcher(packumentCache, cliOptions.fetchTimeout * 1000, cliOptions.downloadsApiUrl);
+const lockfileInspector = new LockfileInspector();
+const changeJournal = new ChangeJournal(cliOptions.snapshotDir ?? path.join(cliOptions.cacheDir, 'snapshots'));
+const ncuHandler = new NpmCheckUpdatesHandler(npmSearcher, lockfileInspector, changeJournal, cliOptions.doctorCommand ?? []);
+const dependencyAuditor = new DependencyAuditor(lockfileInspector, npmSearcher, ncuHandler);
+const dependencyExplainer = new DependencyExplainer(lockfileInspector, npmSearcher);
+const licenseChecker = new LicenseChecker(lockfileInspector, npmSearcher);
+const peerDependencySolver = new PeerDependencySolver(lockfileInspector, npmSearcher, ncuHandler);
+const changelogFetcher = new ChangelogFetcher(npmSearcher, cliOptions.githubApiUrl, cliOptions.fetchTimeout * 1000);
+const packageDocsFetcher = new PackageDocsFetcher(npmSearcher);
+const versionResolver = new VersionResolver(npmSearcher);
+const packageComparer = new PackageComparer(npmSearcher);
+const installSizeAnalyzer = new InstallSizeAnalyzer(lockfileInspector, npmSearcher);
+const enginesChecker = new EnginesChecker(lockfileInspector, npmSearcher);
+const staleDependencyFinder = new StaleDependencyFinder(lockfileInspector, npmSearcher, cliOptions.githubApiUrl, cliOptions.fetchTimeout * 1000);
+const resourceProvider = new ResourceProvider(npmSearcher, ncuHandler, process.cwd());
+
+// Define ToolResult type for MCP tools: a text rendering for clients that predate structured
+// output, and the same data as structuredContent matching the tool's outputSchema
+type ToolResult = { 
+  content: Array<{ type: "text"; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
+function toolResult(text: string, structuredContent: object): ToolResult {
+  return { content: [{ type: "text", text }], structuredContent: structuredContent as Record<string, unknown> };
+}
+
+// The { data, message } results of the handler classes: message first, then the data as JSON
+function messageResult(result: { data: any; message: string }): ToolResult {
+  return toolResult(`${result.message}\n\n${JSON.stringify(result.data, null, 2)}`, result.data);
+}
+
+// A tool as registered with the server. The input schema validates the call arguments and is
+// also what tools/list advertises, so the two can't drift apart.
+export interface ToolDefinition<Input extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  inputSchema: Input;
+  outputSchema?: z.ZodTypeAny;
+  annotations?: ToolAnnotations;
+  timeout?: number; // seconds, instead of --tool-timeout; --tool-timeouts overrides both
+  handler: (args: z.infer<Input>, extra: RequestHandlerExtra<ServerRequest, ServerNotification>) => Promise<ToolResult>;
+}
+
+// The cancellation signal of a tool call, plus progress notifications when the client asked for
+// them with a progressToken
+function toolControl(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): ToolControl {
+  // A yes/no question through elicitation; clients without elicitation answer with an error
+  const confirm = async (message: string) => {
+    const result = await extra.sendRequest({
+      method: "elicitation/create",
+      params: { message, requestedSchema: { type: "object", properties: { confirm: { type: "boolean", title: "Allow" } }, required: ["confirm"] } },
+    }, ElicitResultSchema, { signal: extra.signal });
+    return result.action === 'accept' && result.content?.confirm === true;
+  };
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return { signal: extra.signal, confirm };
+  return {
+    signal: extra.signal,
+    progress: (progress, total, message) => {
+      extra.sendNotification({ method: "notifications/progress", params: { progressToken, progress, total, message } })
+        .catch(error => logger.debug(`Could not send progress notification: ${error instanceof Error ? error.message : String(error)}`));
     },
+    confirm,
+  };
+}
+
+// What a plugin module's default (or `register`) export receives
+export interface PluginContext {
+  registerTool: <Input extends z.ZodTypeAny>(tool: ToolDefinition<Input>) => void;
+  z: typeof z; // the server's Zod, so plugins need no copy of their own
+  toolResult: typeof toolResult;
+  messageResult: typeof messageResult;
+  toolControl: typeof toolControl;
+  logger: typeof logger;
+  npmSearcher: NpmSearcher;
+  ncuHandler: NpmCheckUpdatesHandler;
+  lockfileInspector: LockfileInspector;
+  changeJournal: ChangeJournal;
+}
+
+class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  register<Input extends z.ZodTypeAny>(tool: ToolDefinition<Input>): void {
+    if (this.tools.has(tool.name)) throw new Error(`A tool named ${tool.name} is already registered`);
+    this.tools.set(tool.name, tool as unknown as ToolDefinition);
   }
-);
 
-// Create an instance of our handlers
-const npmSearcher = new NpmSearcher();
-const ncuHandler = new NpmCheckUpdatesHandler();
+  list(): Tool[] {
+    return [...this.tools.values()].map(tool => ({
+      name: tool.name,
+      ...(tool.annotations?.title ? { title: tool.annotations.title } : {}),
+      description: tool.description,
+      inputSchema: ToolRegistry.jsonSchema(tool.inputSchema) as Tool['inputSchema'],
+      ...(tool.outputSchema ? { outputSchema: ToolRegistry.jsonSchema(tool.outputSchema) as Tool['outputSchema'] } : {}),
+      ...(tool.annotations ? { annotations: tool.annotations } : {}),
+    }));
+  }
 
-// Setup error handlers
-server.onerror = (error) => {
-  logger.error(`[MCP Server Error] ${error instanceof Error ? error.message : String(error)}`);
-};
+  // Validate the arguments and run the tool. The handler sees a signal that aborts when the
+  // client cancels the request or the tool's timeout expires, so its work stops either way.
+  async call(name: string, args: unknown, extra: RequestHandlerExtra<ServerRequest, ServerNotification>): Promise<ToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    const parsedArgs = tool.inputSchema.safeParse(args ?? {});
+    if (!parsedArgs.success) {
+      const issues = parsedArgs.error.issues.map(issue => `${issue.path.join('.') || 'arguments'}: ${issue.message}`);
+      throw new McpError(ErrorCode.InvalidParams, `Invalid arguments: ${issues.join('; ')}`);
+    }
 
-process.on('SIGINT', async () => {
-  logger.info(`Received SIGINT, shutting down server...`);
-  await server.close();
-  process.exit(0);
-});
+    // packagePath, given or defaulting to the working directory's package.json, must lie inside an
+    // allowed root. A project directory stands for the package.json in it.
+    const toolArgs = parsedArgs.data;
+    if (tool.inputSchema instanceof z.ZodObject && 'packagePath' in tool.inputSchema.shape) {
+      const resolved = path.resolve(process.cwd(), toolArgs.packagePath || 'package.json');
+      const isDirectory = fs.existsSync(resolved) && fs.statSync(resolved).isDirectory();
+      const packageFile = sandboxPath(isDirectory ? path.join(resolved, 'package.json') : resolved, 'packagePath');
+      if (toolArgs.packagePath) toolArgs.packagePath = packageFile;
+    }
 
-// Define ToolResult type for MCP tools
-type ToolResult = { 
-  content: Array<{ type: string; text: string }>;
-  isError?: boolean;
-};
+    const timeout = cliOptions.toolTimeouts?.[name] ?? tool.timeout ?? cliOptions.toolTimeout;
+    const signal = timeoutSignal(timeout * 1000, extra.signal);
+    const aborted = new Promise<never>((_, reject) => {
+      const onAbort = () => reject(extra.signal.aborted ? signal.reason : new Error(`Tool execution timed out after ${timeout}s`));
+      if (signal.aborted) onAbort(); else signal.addEventListener('abort', onAbort, { once: true });
+    });
+    // A handler that ignores the signal is left to finish in the background; its result is dropped
+    aborted.catch(() => {});
+    return Promise.race([tool.handler(toolArgs, { ...extra, signal }), aborted]);
+  }
 
-// Register our tool handlers
-server.setRequestHandler(
-  ListToolsRequestSchema,
-  async () => {
-    return {
-      tools: [
-        { name: "search_npm", description: "Search for npm packages", inputSchema: { type: "object", properties: { query: { type: "string" }, maxResults: { type: "number", default: 10 } }, required: ["query"] }},
-        { name: "fetch_package_content", description: "Fetch detailed content from an npm package page URL", inputSchema: { type: "object", properties: { url: { type: "string" } }, required: ["url"] }},
-        { name: "get_package_versions", description: "Get available versions for an npm package", inputSchema: { type: "object", properties: { packageName: { type: "string" } }, required: ["packageName"] }},
-        { name: "get_package_details", description: "Get detailed information about an npm package", inputSchema: { type: "object", properties: { packageName: { type: "string" } }, required: ["packageName"] }},
-        { name: "check_updates", description: "Scan package.json for outdated dependencies", inputSchema: { type: "object", properties: { packagePath: { type: "string" }, filter: { type: "array", items: { type: "string" }}, reject: { type: "array", items: { type: "string" }}, target: { type: "string", enum: NcuTargetEnum.options }, peer: { type: "boolean" }, minimal: { type: "boolean" }, packageManager: { type: "string", enum: PackageManagerEnum.options } }}},
-        { name: "upgrade_packages", description: "Upgrade dependencies in package.json", inputSchema: { type: "object", properties: { packagePath: { type: "string" }, upgradeType: { type: "string", enum: NcuTargetEnum.options }, peer: { type: "boolean" }, minimal: { type: "boolean" }, packageManager: { type: "string", enum: PackageManagerEnum.options } }}},
-        { name: "filter_updates", description: "Check/upgrade updates for specific packages", inputSchema: { type: "object", properties: { packagePath: { type: "string" }, filter: { type: "array", items: { type: "string" }}, upgrade: { type: "boolean" }, minimal: { type: "boolean" }, packageManager: { type: "string", enum: PackageManagerEnum.options } }, required: ["filter"] }},
-        { name: "resolve_conflicts", description: "Handle dependency conflicts (uses 'peer' strategy)", inputSchema: { type: "object", properties: { packagePath: { type: "string" }, upgrade: { type: "boolean" }, minimal: { type: "boolean" }, packageManager: { type: "string", enum: PackageManagerEnum.options } }}},
-        { name: "set_version_constraints", description: "Configure version upgrade rules for dependencies", inputSchema: { type: "object", properties: { packagePath: { type: "string" }, target: { type: "string", enum: NcuTargetEnum.options }, removeRange: { type: "boolean" }, upgrade: { type: "boolean" }, minimal: { type: "boolean" }, packageManager: { type: "string", enum: PackageManagerEnum.options } }, required: ["target"] }},
-        { name: "run_doctor", description: "Iteratively install upgrades and run tests", inputSchema: { type: "object", properties: { packagePath: { type: "string" }, doctorInstall: { type: "string" }, doctorTest: { type: "string" }, packageManager: { type: "string", enum: PackageManagerEnum.options } }}}
-      ]
-    };
+  // JSON Schema for a Zod schema, with everything inlined so clients need no $ref support
+  private static jsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+    const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, unknown>;
+    return jsonSchema;
   }
-);
+}
 
-server.setRequestHandler(
-  ListResourcesRequestSchema,
-  async () => ({
-    offerings: { 
-      resources: [], 
-      tools: [
-        { name: "search_npm", description: "Search for npm packages", inputSchema: { type: "object", properties: { query: { type: "string" }, maxResults: { type: "number", default: 10 } }, required: ["query"] }},
-        { name: "fetch_package_content", description: "Fetch detailed content from an npm package page URL", inputSchema: { type: "object", properties: { url: { type: "string" } }, required: ["url"] }},
-        { name: "get_package_versions", description: "Get available versions for an npm package", inputSchema: { type: "object", properties: { packageName: { type: "string" } }, required: ["packageName"] }},
-        { name: "get_package_details", description: "Get detailed information about an npm package", inputSchema: { type: "object", properties: { packageName: { type: "string" } }, required: ["packageName"] }},
-        { name: "check_updates", description: "Scan package.json for outdated dependencies", inputSchema: { type: "object", properties: { packagePath: { type: "string" }, filter: { type: "array", items: { type: "string" }}, reject: { type: "array", items: { type: "string" }}, target: { type: "string", enum: NcuTargetEnum.options }, peer: { type: "boolean" }, minimal: { type: "boolean" }, packageManager: { type: "string", enum: PackageManagerEnum.options } }}},
-        { name: "upgrade_packages", description: "Upgrade dependencies in package.json", inputSchema: { type: "object", properties: { packagePath: { type: "string" }, upgradeType: { type: "string", enum: NcuTargetEnum.options }, peer: { type: "boolean" }, minimal: { type: "boolean" }, packageManager: { type: "string", enum: PackageManagerEnum.options } }}},
-        { name: "filter_updates", description: "Check/upgrade updates for specific packages", inputSchema: { type: "object", properties: { packagePath: { type: "string" }, filter: { type: "array", items: { type: "string" }}, upgrade: { type: "boolean" }, minimal: { type: "boolean" }, packageManager: { type: "string", enum: PackageManagerEnum.options } }, required: ["filter"] }},
-        { name: "resolve_conflicts", description: "Handle dependency conflicts (uses 'peer' strategy)", inputSchema: { type: "object", properties: { packagePath: { type: "string" }, upgrade: { type: "boolean" }, minimal: { type: "boolean" }, packageManager: { type: "string", enum: PackageManagerEnum.options } }}},
-        { name: "set_version_constraints", description: "Configure version upgrade rules for dependencies", inputSchema: { type: "object", properties: { packagePath: { type: "string" }, target: { type: "string", enum: NcuTargetEnum.options }, removeRange: { type: "boolean" }, upgrade: { type: "boolean" }, minimal: { type: "boolean" }, packageManager: { type: "string", enum: PackageManagerEnum.options } }, required: ["target"] }},
-        { name: "run_doctor", description: "Iteratively install upgrades and run tests", inputSchema: { type: "object", properties: { packagePath: { type: "string" }, doctorInstall: { type: "string" }, doctorTest: { type: "string" }, packageManager: { type: "string", enum: PackageManagerEnum.options } }}}
-      ] 
-    }
-  })
-);
-
-server.setRequestHandler(
-  CallToolRequestSchema,
-  async (request, extra) => {
-    const { name, arguments: args } = request.params;
-    let parsedArgs: any; // To hold Zod parsed data
-    const startTime = Date.now();
-    
-    // Check memory at the start of processing a tool call
-    if (process.memoryUsage) {
-      const memUsage = process.memoryUsage();
-      logger.debug(`Memory before tool call (${name}): RSS=${Math.round(memUsage.rss / 1024 / 1024)}MB, Heap=${Math.round(memUsage.heapUsed / 1024 / 1024)}MB`);
+// Load plugin modules given with --plugin. Each one exports a function (default or `register`)
+// that receives a PluginContext and registers its tools; a plugin that fails to load stops startup.
+async function loadPlugins(specifiers: string[], context: PluginContext): Promise<void> {
+  for (const specifier of specifiers) {
+    // Paths are resolved from the working directory; anything else is a package name
+    const isPath = specifier.startsWith('.') || path.isAbsolute(specifier);
+    const plugin = await import(isPath ? pathToFileURL(path.resolve(specifier)).href : specifier);
+    const register = plugin.default ?? plugin.register;
+    if (typeof register !== 'function') {
+      throw new Error(`Plugin ${specifier} must export a default or "register" function`);
     }
+    await register(context);
+    logger.info(`Loaded plugin ${specifier}`);
+  }
+}
 
-    try {
-      // Set a timeout for all tool calls to prevent lockups
-      const toolTimeout = 30000; // 30 seconds default timeout
-      const timeoutPromise = new Promise<ToolResult>((_, reject) => {
-        setTimeout(() => reject(new Error(`Tool execution timed out after ${toolTimeout/1000}s`)), toolTimeout);
-      });
-      
-      // Execute the tool call with a timeout
-      const resultPromise = (async (): Promise<ToolResult> => {
-        switch (name) {
-          case "search_npm": {
-            parsedArgs = SearchNpmSchema.safeParse(args);
-            if (!parsedArgs.success) throw new McpError(ErrorCode.InvalidParams, `Invalid arguments: ${parsedArgs.error.format()}`);
-            const results = await npmSearcher.searchPackages(parsedArgs.data);
-            return { content: [{ type: "text", text: npmSearcher.formatSearchResults(results) }] };
-          }
-          case "fetch_package_content": {
-            parsedArgs = FetchPackageContentSchema.safeParse(args);
-            if (!parsedArgs.success) throw new McpError(ErrorCode.InvalidParams, `Invalid arguments: ${parsedArgs.error.format()}`);
-            const content = await npmSearcher.fetchPackageContent(parsedArgs.data);
-            return { content: [{ type: "text", text: content }] };
-          }
-          case "get_package_versions": {
-            parsedArgs = GetPackageVersionsSchema.safeParse(args);
-            if (!parsedArgs.success) throw new McpError(ErrorCode.InvalidParams, `Invalid arguments: ${parsedArgs.error.format()}`);
-            const versions = await npmSearcher.getPackageVersions(parsedArgs.data);
-            return { content: [{ type: "text", text: npmSearcher.formatVersions(parsedArgs.data.packageName, versions) }] };
-          }
-          case "get_package_details": {
-            parsedArgs = GetPackageDetailsSchema.safeParse(args);
-            if (!parsedArgs.success) throw new McpError(ErrorCode.InvalidParams, `Invalid arguments: ${parsedArgs.error.format()}`);
-            const details = await npmSearcher.getPackageDetails(parsedArgs.data);
-            return { content: [{ type: "text", text: JSON.stringify(details, null, 2) }] };
-          }
+// Built-in tools. Plugins add theirs to the same registry at startup.
+const toolRegistry = new ToolRegistry();
 
-          // npm-check-updates tools
-          case "check_updates":
-            parsedArgs = CheckUpdatesSchema.safeParse(args);
-            if (!parsedArgs.success) throw new McpError(ErrorCode.InvalidParams, `Invalid arguments: ${parsedArgs.error.format()}`);
-            const checkResult = await ncuHandler.checkUpdates(parsedArgs.data);
-            return { content: [{ type: "text", text: `${checkResult.message}\n\n${JSON.stringify(checkResult.data, null, 2)}` }] };
-          
-          case "upgrade_packages":
-            parsedArgs = UpgradePackagesSchema.safeParse(args);
-            if (!parsedArgs.success) throw new McpError(ErrorCode.InvalidParams, `Invalid arguments: ${parsedArgs.error.format()}`);
-            const upgradeResult = await ncuHandler.upgradePackages(parsedArgs.data);
-            return { content: [{ type: "text", text: `${upgradeResult.message}\n\n${JSON.stringify(upgradeResult.data, null, 2)}` }] };
-
-          case "filter_updates":
-            parsedArgs = FilterUpdatesSchema.safeParse(args);
-            if (!parsedArgs.success) throw new McpError(ErrorCode.InvalidParams, `Invalid arguments: ${parsedArgs.error.format()}`);
-            const filterResult = await ncuHandler.filterUpdates(parsedArgs.data);
-            return { content: [{ type: "text", text: `${filterResult.message}\n\n${JSON.stringify(filterResult.data, null, 2)}` }] };
-
-          case "resolve_conflicts":
-            parsedArgs = ResolveConflictsSchema.safeParse(args);
-            if (!parsedArgs.success) throw new McpError(ErrorCode.InvalidParams, `Invalid arguments: ${parsedArgs.error.format()}`);
-            const resolveResult = await ncuHandler.resolveConflicts({ ...parsedArgs.data, peer: true }); // 'peer' is implicit
-            return { content: [{ type: "text", text: `${resolveResult.message}\n\n${JSON.stringify(resolveResult.data, null, 2)}` }] };
-
-          case "set_version_constraints":
-            parsedArgs = SetVersionConstraintsSchema.safeParse(args);
-            if (!parsedArgs.success) throw new McpError(ErrorCode.InvalidParams, `Invalid arguments: ${parsedArgs.error.format()}`);
-            const setResult = await ncuHandler.setVersionConstraints(parsedArgs.data);
-            return { content: [{ type: "text", text: `${setResult.message}\n\n${JSON.stringify(setResult.data, null, 2)}` }] };
-
-          case "run_doctor":
-            parsedArgs = RunDoctorSchema.safeParse(args);
-            if (!parsedArgs.success) throw new McpError(ErrorCode.InvalidParams, `Invalid arguments: ${parsedArgs.error.format()}`);
-            const doctorResult = await ncuHandler.runDoctor(parsedArgs.data);
-            return { content: [{ type: "text", text: `${doctorResult.message}\n\n${JSON.stringify(doctorResult.data, null, 2)}` }] };
-            
-          default:
-            throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
-        }
-      })();
-      
-      // Race between the tool execution and the timeout
-      const result = await Promise.race([resultPromise, timeoutPromise]) as { 
-        content: Array<{ type: string; text: string }>
-      };
-      
-      // Log execution time and memory after successful tool call
-      const executionTime = Date.now() - startTime;
-      logger.debug(`Tool '${name}' executed in ${executionTime}ms`);
-      
+// NPM search tools
+toolRegistry.register({
+  name: "search_npm",
+  description: "Search for npm packages",
+  inputSchema: SearchNpmSchema,
+  outputSchema: SearchNpmOutputSchema,
+  annotations: { title: "Search npm", readOnlyHint: true, openWorldHint: true },
+  handler: async (args, extra) => {
+    const results = await npmSearcher.searchPackages(args, extra.signal);
+    return toolResult(npmSearcher.formatSearchResults(results), results);
+  },
+});
+
+toolRegistry.register({
+  name: "fetch_package_content",
+  description: "Fetch the text of an npm package page URL by scraping npmjs.com. Prefer get_package_docs, which reads the README from the registry",
+  inputSchema: FetchPackageContentSchema,
+  outputSchema: FetchPackageContentOutputSchema,
+  annotations: { title: "Fetch package page", readOnlyHint: true, openWorldHint: true },
+  handler: async (args, extra) => {
+    const content = await npmSearcher.fetchPackageContent(args, extra.signal);
+    return toolResult(content, { url: args.url, content });
+  },
+});
+
+toolRegistry.register({
+  name: "get_package_versions",
+  description: "Get available versions for an npm package",
+  inputSchema: GetPackageVersionsSchema,
+  outputSchema: GetPackageVersionsOutputSchema,
+  annotations: { title: "Get package versions", readOnlyHint: true, openWorldHint: true },
+  handler: async (args, extra) => {
+    const { versions, distTags, cache } = await npmSearcher.getPackageVersions(args, extra.signal);
+    return toolResult(npmSearcher.formatVersions(args.packageName, versions, cache), { packageName: args.packageName, versions, distTags, cache });
+  },
+});
+
+toolRegistry.register({
+  name: "resolve_version",
+  description: "Resolve a semver range or dist-tag to the version npm would install today, respecting the project's engines.node. Lists versions in semver order with publish dates, dist-tags and deprecations",
+  inputSchema: ResolveVersionSchema,
+  outputSchema: ResolveVersionOutputSchema,
+  annotations: { title: "Resolve version", readOnlyHint: true, openWorldHint: true },
+  handler: async (args, extra) => messageResult(await versionResolver.resolve(args, toolControl(extra))),
+});
+
+toolRegistry.register({
+  name: "get_package_details",
+  description: "Get detailed information about an npm package",
+  inputSchema: GetPackageDetailsSchema,
+  outputSchema: GetPackageDetailsOutputSchema,
+  annotations: { title: "Get package details", readOnlyHint: true, openWorldHint: true },
+  handler: async (args, extra) => {
+    const details = await npmSearcher.getPackageDetails(args, extra.signal);
+    return toolResult(JSON.stringify(details, null, 2), details);
+  },
+});
+
+toolRegistry.register({
+  name: "get_package_docs",
+  description: "Read a package's README as markdown from the registry, for any version. Can list its table of contents, return one section, and page through long READMEs",
+  inputSchema: GetPackageDocsSchema,
+  outputSchema: GetPackageDocsOutputSchema,
+  annotations: { title: "Get package docs", readOnlyHint: true, openWorldHint: true },
+  handler: async (args, extra) => messageResult(await packageDocsFetcher.getDocs(args, toolControl(extra))),
+});
+
+toolRegistry.register({
+  name: "compare_packages",
+  description: "Compare candidate npm packages side by side: weekly downloads, release cadence, maintainers, dependencies, size, license, TypeScript types and deprecation",
+  inputSchema: ComparePackagesSchema,
+  outputSchema: ComparePackagesOutputSchema,
+  annotations: { title: "Compare packages", readOnlyHint: true, openWorldHint: true },
+  handler: async (args, extra) => messageResult(await packageComparer.compare(args, toolControl(extra))),
+});
+
+toolRegistry.register({
+  name: "analyze_install_size",
+  description: "Estimate what installing a package adds to a project: its transitive dependencies, unpacked size and file count, the largest subtrees and the packages the lockfile already has. Can compare two versions",
+  inputSchema: AnalyzeInstallSizeSchema,
+  outputSchema: AnalyzeInstallSizeOutputSchema,
+  annotations: { title: "Analyze install size", readOnlyHint: true, openWorldHint: true },
+  timeout: 300,
+  handler: async (args, extra) => messageResult(await installSizeAnalyzer.analyze(args, toolControl(extra))),
+});
+
+toolRegistry.register({
+  name: "get_changelog",
+  description: "Get the changelog entries between two versions of a package, with breaking changes highlighted",
+  inputSchema: GetChangelogSchema,
+  outputSchema: GetChangelogOutputSchema,
+  annotations: { title: "Get changelog", readOnlyHint: true, openWorldHint: true },
+  handler: async (args, extra) => {
+    const changelogResult = await changelogFetcher.getChangelog(args, toolControl(extra));
+    return toolResult(changelogFetcher.formatChangelog(changelogResult), changelogResult.data);
+  },
+});
+
+// npm-check-updates tools. The ones that can write package.json snapshot it first.
+toolRegistry.register({
+  name: "check_updates",
+  description: "Scan package.json for outdated dependencies",
+  inputSchema: CheckUpdatesSchema,
+  outputSchema: CheckUpdatesOutputSchema,
+  annotations: { title: "Check for updates", readOnlyHint: true, openWorldHint: true },
+  handler: async (args, extra) => messageResult(await ncuHandler.checkUpdates(args, toolControl(extra))),
+});
+
+toolRegistry.register({
+  name: "upgrade_packages",
+  description: "Upgrade dependencies in package.json",
+  inputSchema: UpgradePackagesSchema,
+  outputSchema: UpgradePackagesOutputSchema,
+  annotations: { title: "Upgrade packages", readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+  timeout: 900, // install: true runs a full install
+  handler: async (args, extra) => messageResult(await ncuHandler.upgradePackages(args, toolControl(extra))),
+});
+
+toolRegistry.register({
+  name: "filter_updates",
+  description: "Check/upgrade updates for specific packages",
+  inputSchema: FilterUpdatesSchema,
+  outputSchema: UpgradeResultOutputSchema,
+  annotations: { title: "Filter updates", readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+  timeout: 900, // install: true runs a full install
+  handler: async (args, extra) => messageResult(await ncuHandler.filterUpdates(args, toolControl(extra))),
+});
+
+toolRegistry.register({
+  name: "resolve_conflicts",
+  description: "Handle dependency conflicts (uses 'peer' strategy)",
+  inputSchema: ResolveConflictsSchema,
+  outputSchema: UpgradeResultOutputSchema,
+  annotations: { title: "Resolve peer conflicts", readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+  timeout: 900, // install: true runs a full install
+  handler: async (args, extra) => messageResult(await ncuHandler.resolveConflicts(args, toolControl(extra))),
+});
+
+toolRegistry.register({
+  name: "solve_peer_dependencies",
+  description: "Find the newest versions for a set of proposed upgrades that satisfy every peer dependency range, and explain which package pins which peer when that is not possible",
+  inputSchema: SolvePeerDependenciesSchema,
+  outputSchema: SolvePeerDependenciesOutputSchema,
+  annotations: { title: "Solve peer dependencies", readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+  handler: async (args, extra) => messageResult(await peerDependencySolver.solve(args, toolControl(extra))),
+});
+
+toolRegistry.register({
+  name: "set_version_constraints",
+  description: "Configure version upgrade rules for dependencies",
+  inputSchema: SetVersionConstraintsSchema,
+  outputSchema: UpgradeResultOutputSchema,
+  annotations: { title: "Set version constraints", readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+  timeout: 900, // install: true runs a full install
+  handler: async (args, extra) => messageResult(await ncuHandler.setVersionConstraints(args, toolControl(extra))),
+});
+
+toolRegistry.register({
+  name: "run_doctor",
+  description: "Iteratively install upgrades and run tests",
+  inputSchema: RunDoctorSchema,
+  outputSchema: RunDoctorOutputSchema,
+  annotations: { title: "Run doctor", readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+  timeout: 1800, // an install and a test run per upgrade
+  handler: async (args, extra) => messageResult(await ncuHandler.runDoctor(args, toolControl(extra))),
+});
+
+toolRegistry.register({
+  name: "install_dependencies",
+  description: "Run the project's package manager install (npm, pnpm, yarn or bun, detected from the packageManager field or lockfile) and report the lockfile changes",
+  inputSchema: InstallDependenciesSchema,
+  outputSchema: InstallResultSchema,
+  annotations: { title: "Install dependencies", readOnlyHint: false, destructiveHint: false, openWorldHint: true },
+  timeout: 900, // a full install on a cold cache
+  handler: async (args, extra) => messageResult(await ncuHandler.installDependencies(args, toolControl(extra))),
+});
+
+// Lockfile tools
+toolRegistry.register({
+  name: "inspect_lockfile",
+  description: "Inspect package-lock.json, pnpm-lock.yaml or yarn.lock: locked versions, drift from package.json, duplicates and transitive counts",
+  inputSchema: InspectLockfileSchema,
+  outputSchema: InspectLockfileOutputSchema,
+  annotations: { title: "Inspect lockfile", readOnlyHint: true, openWorldHint: false },
+  handler: async (args) => messageResult(await lockfileInspector.inspect(args)),
+});
+
+toolRegistry.register({
+  name: "audit_dependencies",
+  description: "Check installed versions against the registry's security advisories and find the lowest fixed versions",
+  inputSchema: AuditDependenciesSchema,
+  outputSchema: AuditDependenciesOutputSchema,
+  annotations: { title: "Audit dependencies", readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+  handler: async (args, extra) => messageResult(await dependencyAuditor.audit(args, toolControl(extra))),
+});
+
+toolRegistry.register({
+  name: "explain_dependency",
+  description: "Show every dependency path from package.json to an installed package and which direct dependency upgrade would remove or change it",
+  inputSchema: ExplainDependencySchema,
+  outputSchema: ExplainDependencyOutputSchema,
+  annotations: { title: "Explain dependency", readOnlyHint: true, openWorldHint: true },
+  handler: async (args, extra) => messageResult(await dependencyExplainer.explain(args, toolControl(extra))),
+});
+
+toolRegistry.register({
+  name: "check_licenses",
+  description: "Check the licenses of every installed package, including transitive ones, against the allow and deny lists in .npmhelperrc.json and return an attribution report",
+  inputSchema: CheckLicensesSchema,
+  outputSchema: CheckLicensesOutputSchema,
+  annotations: { title: "Check licenses", readOnlyHint: true, openWorldHint: true },
+  handler: async (args, extra) => messageResult(await licenseChecker.check(args, toolControl(extra))),
+});
+
+toolRegistry.register({
+  name: "find_stale_dependencies",
+  description: "Find direct and locked dependencies whose installed versions are deprecated, that have not been published for months, or whose repository is archived or missing, with suggested replacements",
+  inputSchema: FindStaleDependenciesSchema,
+  outputSchema: FindStaleDependenciesOutputSchema,
+  annotations: { title: "Find stale dependencies", readOnlyHint: true, openWorldHint: true },
+  timeout: 600,
+  handler: async (args, extra) => messageResult(await staleDependencyFinder.find(args, toolControl(extra))),
+});
+
+toolRegistry.register({
+  name: "check_engines",
+  description: "Check every direct dependency's installed, wanted and latest versions against the project's Node version (engines.node, .nvmrc or .node-version), and find the newest versions that still support it",
+  inputSchema: CheckEnginesSchema,
+  outputSchema: CheckEnginesOutputSchema,
+  annotations: { title: "Check engines", readOnlyHint: true, openWorldHint: true },
+  timeout: 300,
+  handler: async (args, extra) => messageResult(await enginesChecker.check(args, toolControl(extra))),
+});
+
+// Change history
+toolRegistry.register({
+  name: "list_changes",
+  description: "List the package.json and lockfile snapshots taken before each write, newest first",
+  inputSchema: ListChangesSchema,
+  outputSchema: ListChangesOutputSchema,
+  annotations: { title: "List changes", readOnlyHint: true, openWorldHint: false },
+  handler: async (args) => messageResult(changeJournal.listChanges(args)),
+});
+
+toolRegistry.register({
+  name: "undo_last_change",
+  description: "Restore package.json and the lockfile from a snapshot (the most recent change by default)",
+  inputSchema: UndoLastChangeSchema,
+  outputSchema: UndoLastChangeOutputSchema,
+  annotations: { title: "Undo change", readOnlyHint: false, destructiveHint: true, openWorldHint: false },
+  handler: async (args) => messageResult(changeJournal.undo(args)),
+});
+
+// Each client connection gets its own Server: the stdio client, or one per HTTP session
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "npm-helper-mcp",
+      version: "2.0.5",
+    },
+    {
+      capabilities: {
+        tools: {}, // Will be populated by our handlers
+        resources: { subscribe: true },
+      },
+    }
+  );
+
+  // Setup error handlers
+  server.onerror = (error) => {
+    logger.error(`[MCP Server Error] ${error instanceof Error ? error.message : String(error)}`);
+  };
+  server.onclose = () => resourceProvider.removeServer(server);
+
+  // Register our tool handlers
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: toolRegistry.list() }));
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => resourceProvider.list());
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => resourceProvider.templates());
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => resourceProvider.read(request.params.uri));
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    resourceProvider.subscribe(server, request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    resourceProvider.unsubscribe(server, request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(
+    CallToolRequestSchema,
+    async (request, extra) => {
+      const { name, arguments: args } = request.params;
+      const startTime = Date.now();
+    
+      // Check memory at the start of processing a tool call
       if (process.memoryUsage) {
         const memUsage = process.memoryUsage();
-        logger.debug(`Memory after tool call (${name}): RSS=${Math.round(memUsage.rss / 1024 / 1024)}MB, Heap=${Math.round(memUsage.heapUsed / 1024 / 1024)}MB`);
+        logger.debug(`Memory before tool call (${name}): RSS=${Math.round(memUsage.rss / 1024 / 1024)}MB, Heap=${Math.round(memUsage.heapUsed / 1024 / 1024)}MB`);
+      }
+
+      try {
+        // The registry applies the tool's timeout and the client's cancellation
+        const result = await toolRegistry.call(name, args, extra);
+      
+        // Log execution time and memory after successful tool call
+        const executionTime = Date.now() - startTime;
+        logger.debug(`Tool '${name}' executed in ${executionTime}ms`);
+      
+        if (process.memoryUsage) {
+          const memUsage = process.memoryUsage();
+          logger.debug(`Memory after tool call (${name}): RSS=${Math.round(memUsage.rss / 1024 / 1024)}MB, Heap=${Math.round(memUsage.heapUsed / 1024 / 1024)}MB`);
         
-        // Force garbage collection if memory usage is high
-        if (memUsage.heapUsed > 200 * 1024 * 1024 && global.gc) {
-          logger.info("Memory usage high after tool call, forcing garbage collection");
-          try {
-            global.gc();
-          } catch (e) {
-            logger.error("Failed to force garbage collection", e);
+          // Force garbage collection if memory usage is high
+          if (memUsage.heapUsed > 200 * 1024 * 1024 && global.gc) {
+            logger.info("Memory usage high after tool call, forcing garbage collection");
+            try {
+              global.gc();
+            } catch (e) {
+              logger.error("Failed to force garbage collection", e);
+            }
           }
         }
-      }
       
-      return result;
-    } catch (error) {
-      const executionTime = Date.now() - startTime;
-      logger.error(`Tool '${name}' failed after ${executionTime}ms: ${error instanceof Error ? error.message : String(error)}`);
+        return result;
+      } catch (error) {
+        const executionTime = Date.now() - startTime;
+        logger.error(`Tool '${name}' failed after ${executionTime}ms: ${error instanceof Error ? error.message : String(error)}`);
       
-      if (process.memoryUsage) {
-        const memUsage = process.memoryUsage();
-        logger.debug(`Memory after tool error (${name}): RSS=${Math.round(memUsage.rss / 1024 / 1024)}MB, Heap=${Math.round(memUsage.heapUsed / 1024 / 1024)}MB`);
-      }
+        if (process.memoryUsage) {
+          const memUsage = process.memoryUsage();
+          logger.debug(`Memory after tool error (${name}): RSS=${Math.round(memUsage.rss / 1024 / 1024)}MB, Heap=${Math.round(memUsage.heapUsed / 1024 / 1024)}MB`);
+        }
       
-      if (error instanceof McpError) {
-        // For McpErrors (like validation errors), re-throw to let SDK handle standard formatting.
-        throw error;
+        if (error instanceof McpError) {
+          // For McpErrors (like validation errors), re-throw to let SDK handle standard formatting.
+          throw error;
+        }
+        // For other unexpected errors, craft a generic MCP error response.
+        return {
+          content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }],
+          isError: true // Indicate this is an error response as per MCP spec
+        } as ToolResult;
+      }
+    }
+  );
+
+  return server;
+}
+
+// Servers that are currently connected, closed on shutdown
+const activeServers = new Set<Server>();
+
+process.on('SIGINT', async () => {
+  logger.info(`Received SIGINT, shutting down server...`);
+  await Promise.all([...activeServers].map(server => server.close()));
+  process.exit(0);
+});
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Read and parse a JSON request body
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error(`Request body is larger than ${MAX_BODY_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new Error('Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+// Compare the bearer token in constant time
+function isAuthorized(authorization: string | undefined): boolean {
+  if (!cliOptions.authToken) return true;
+  const token = authorization?.match(/^Bearer\s+(.+)$/i)?.[1] ?? '';
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(token), digest(cliOptions.authToken));
+}
+
+// Streamable HTTP transport on /mcp: POST carries client messages, GET opens the server's event
+// stream and DELETE ends the session. An initialize request without a session id starts a new
+// session with its own transport and Server; idle sessions are closed after --session-timeout.
+async function startHttpServer(): Promise<void> {
+  const sessions = new Map<string, { transport: StreamableHTTPServerTransport; server: Server; lastSeen: number }>();
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+      if (pathname !== '/mcp') {
+        res.writeHead(404).end();
+        return;
+      }
+      if (!isAuthorized(req.headers.authorization)) {
+        sendJsonRpcError(res, 401, -32001, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+        return;
+      }
+
+      let body: unknown;
+      if (req.method === 'POST') {
+        try {
+          body = await readJsonBody(req);
+        } catch (error) {
+          sendJsonRpcError(res, 400, ErrorCode.ParseError, error instanceof Error ? error.message : String(error));
+          return;
+        }
+      }
+
+      const sessionId = req.headers['mcp-session-id'];
+      let session = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+      if (!session) {
+        if (sessionId) {
+          sendJsonRpcError(res, 404, -32001, 'Session not found');
+          return;
+        }
+        if (!isInitializeRequest(body)) {
+          sendJsonRpcError(res, 400, -32000, 'Bad Request: no session id; start a session with an initialize request');
+          return;
+        }
+        const server = createServer();
+        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => crypto.randomUUID(),
+          onsessioninitialized: (id) => {
+            sessions.set(id, newSession);
+            logger.info(`HTTP session ${id} started (${sessions.size} active)`);
+          },
+        });
+        const newSession = { transport, server, lastSeen: Date.now() };
+        const onServerClose = server.onclose;
+        server.onclose = () => {
+          onServerClose?.();
+          activeServers.delete(server);
+          if (transport.sessionId && sessions.delete(transport.sessionId)) {
+            logger.info(`HTTP session ${transport.sessionId} closed (${sessions.size} active)`);
+          }
+        };
+        activeServers.add(server);
+        await server.connect(transport);
+        session = newSession;
+      }
+      session.lastSeen = Date.now();
+      await session.transport.handleRequest(req, res, body);
+    } catch (error) {
+      logger.error(`HTTP request failed: ${error instanceof Error ? error.message : String(error)}`);
+      if (!res.headersSent) sendJsonRpcError(res, 500, ErrorCode.InternalError, 'Internal server error');
+    }
+  });
+
+  const idleSweep = setInterval(() => {
+    const cutoff = Date.now() - cliOptions.sessionTimeout * 1000;
+    for (const [id, session] of sessions) {
+      if (session.lastSeen < cutoff) {
+        logger.info(`Closing HTTP session ${id} after ${cliOptions.sessionTimeout}s without requests`);
+        session.server.close().catch(error => logger.error(`Failed to close session ${id}: ${error instanceof Error ? error.message : String(error)}`));
       }
-      // For other unexpected errors, craft a generic MCP error response.
-      return {
-        content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }],
-        isError: true // Indicate this is an error response as per MCP spec
-      } as ToolResult;
     }
+  }, Math.min(60000, cliOptions.sessionTimeout * 1000));
+  idleSweep.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(cliOptions.port, cliOptions.host, () => resolve());
+  });
+  logger.info(`NPM Helper MCP Server is listening on http://${cliOptions.host}:${cliOptions.port}/mcp`
+    + (cliOptions.authToken ? ' (bearer token required)' : ''));
+  if (!cliOptions.authToken && !['127.0.0.1', '::1', 'localhost'].includes(cliOptions.host)) {
+    logger.warn(`No --auth-token is set and ${cliOptions.host} is not a loopback address; anyone who can reach the port can use every tool`);
   }
-);
+}
 
 // Launch the server
 async function runServer() {
@@ -775,10 +6501,29 @@ async function runServer() {
       clearInterval(memoryMonitor);
     });
     
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-    
-    logger.info("NPM Helper MCP Server is running and connected via stdio");
+    await loadPlugins(cliOptions.plugin ?? [], {
+      registerTool: (tool) => toolRegistry.register(tool),
+      z,
+      toolResult,
+      messageResult,
+      toolControl,
+      logger,
+      npmSearcher,
+      ncuHandler,
+      lockfileInspector,
+      changeJournal,
+    });
+
+    if (cliOptions.transport === 'http') {
+      await startHttpServer();
+    } else {
+      const server = createServer();
+      activeServers.add(server);
+      const transport = new StdioServerTransport();
+      await server.connect(transport);
+      
+      logger.info("NPM Helper MCP Server is running and connected via stdio");
+    }
     
   } catch (error) {
     logger.error(`Fatal error starting server: ${error instanceof Error ? error.message : String(error)}`);
@@ -0,0 +1,135 @@
+// audit_dependencies against a mock bulk advisory endpoint
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { connect, packument, startRegistry, tempProject } from './helpers.mjs';
+
+const dependencies = { lodash: '^4.17.0', qs: '~6.5.0', debug: '2.6.9', minimist: '^1.2.0' };
+
+// package-lock.json v3; debug pins its own ms
+const lockfile = {
+  name: 'fixture',
+  version: '1.0.0',
+  lockfileVersion: 3,
+  requires: true,
+  packages: {
+    '': { name: 'fixture', version: '1.0.0', dependencies },
+    'node_modules/lodash': { version: '4.17.15' },
+    'node_modules/qs': { version: '6.5.2' },
+    'node_modules/debug': { version: '2.6.9', dependencies: { ms: '2.0.0' } },
+    'node_modules/ms': { version: '2.0.0' },
+    'node_modules/minimist': { version: '1.2.5' },
+  },
+};
+
+const advisories = {
+  lodash: [
+    { id: 1, title: 'Prototype pollution', url: 'https://example.test/1', severity: 'high', vulnerable_versions: '<4.17.20', cwe: ['CWE-1321'], cvss: { score: 7.4 } },
+    { id: 2, title: 'Command injection', url: 'https://example.test/2', severity: 'critical', vulnerable_versions: '<4.17.19' },
+  ],
+  qs: [{ id: 3, title: 'Prototype poisoning', url: 'https://example.test/3', severity: 'moderate', vulnerable_versions: '<6.10.3' }],
+  ms: [{ id: 4, title: 'ReDoS', url: 'https://example.test/4', severity: 'low', vulnerable_versions: '<2.0.1' }],
+  minimist: [
+    { id: 5, title: 'No severity given', url: 'https://example.test/5', vulnerable_versions: '<1.2.6' },
+    { id: 6, title: 'Not installed', url: 'https://example.test/6', severity: 'critical', vulnerable_versions: '<1.0.0' },
+  ],
+};
+
+describe('audit_dependencies', () => {
+  let registry;
+  let bulkRequests;
+
+  before(async () => {
+    bulkRequests = [];
+    registry = await startRegistry({
+      packuments: {
+        lodash: packument('lodash', ['4.17.15', '4.17.19', '4.17.20', '4.17.21']),
+        qs: packument('qs', ['6.5.2', '6.5.3', '6.10.3', '6.11.0']),
+        ms: packument('ms', ['2.0.0', '2.1.0']),
+        minimist: packument('minimist', ['1.2.5', '1.2.6', '1.2.8']),
+        debug: packument('debug', ['2.6.9']),
+      },
+      routes: {
+        'POST /-/npm/v1/security/advisories/bulk': body => {
+          bulkRequests.push(body);
+          return Object.fromEntries(Object.keys(body).filter(name => advisories[name]).map(name => [name, advisories[name]]));
+        },
+      },
+    });
+  });
+
+  after(() => registry.close());
+
+  // Run one audit in a fresh copy of the fixture project
+  async function audit(args = {}) {
+    const dir = tempProject({
+      'package.json': { name: 'fixture', version: '1.0.0', dependencies },
+      'package-lock.json': lockfile,
+      '.npmrc': `registry=${registry.url}\n`,
+    });
+    const server = await connect(dir);
+    try {
+      const result = await server.call('audit_dependencies', args);
+      assert.ok(!result.isError, result.content[0].text);
+      return { data: result.structuredContent, packageJson: fs.readFileSync(path.join(dir, 'package.json'), 'utf8') };
+    } finally {
+      await server.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  }
+
+  const byId = (data, id) => data.advisories.find(advisory => advisory.id === id);
+
+  it('queries the bulk endpoint with every installed version', async () => {
+    bulkRequests.length = 0;
+    await audit();
+    assert.deepEqual(bulkRequests, [{ lodash: ['4.17.15'], qs: ['6.5.2'], debug: ['2.6.9'], ms: ['2.0.0'], minimist: ['1.2.5'] }]);
+  });
+
+  it('maps severities, defaulting to info, and sorts the most severe first', async () => {
+    const { data } = await audit();
+    assert.deepEqual(data.advisories.map(advisory => [advisory.id, advisory.severity]), [[2, 'critical'], [1, 'high'], [3, 'moderate'], [4, 'low'], [5, 'info']]);
+    assert.deepEqual(data.summary.bySeverity, { info: 1, low: 1, moderate: 1, high: 1, critical: 1 });
+    assert.equal(data.summary.vulnerablePackages, 4);
+    // advisory 6 does not match the installed minimist
+    assert.equal(byId(data, 6), undefined);
+  });
+
+  it('drops advisories below minSeverity', async () => {
+    const { data } = await audit({ minSeverity: 'moderate' });
+    assert.deepEqual(data.advisories.map(advisory => advisory.id), [2, 1, 3]);
+  });
+
+  it('finds the lowest fixed version and whether the current range allows it', async () => {
+    const { data } = await audit();
+    assert.deepEqual(
+      [byId(data, 1).lowestFixedVersion, byId(data, 1).fixedInRange, byId(data, 1).fixAction],
+      ['4.17.20', '4.17.20', 'reinstall'],
+    );
+    assert.deepEqual([byId(data, 2).lowestFixedVersion, byId(data, 2).fixedInRange], ['4.17.19', '4.17.19']);
+    assert.deepEqual([byId(data, 5).fixedInRange, byId(data, 5).fixAction], ['1.2.6', 'reinstall']);
+    // ~6.5.0 allows no fixed version, so the direct range has to move
+    const qs = byId(data, 3);
+    assert.deepEqual([qs.lowestFixedVersion, qs.fixedInRange, qs.fixAction, qs.recommendedRange], ['6.10.3', null, 'bump-range', '~6.10.3']);
+    // debug pins ms to 2.0.0, so only a new debug can bring the fix
+    const ms = byId(data, 4);
+    assert.deepEqual([ms.direct, ms.lowestFixedVersion, ms.fixedInRange, ms.fixAction], [false, '2.1.0', null, 'upgrade-parent']);
+    assert.deepEqual(data.fixes, { qs: '~6.10.3' });
+  });
+
+  it('previews range fixes with dryRun without writing package.json', async () => {
+    const { data, packageJson } = await audit({ fix: true, dryRun: true });
+    assert.deepEqual(data.applied, { qs: '~6.10.3' });
+    assert.match(data.diff, /\+\s+"qs": "~6\.10\.3"/);
+    assert.equal(data.changeId, undefined);
+    assert.match(packageJson, /"qs": "~6\.5\.0"/);
+  });
+
+  it('writes range fixes into package.json with fix', async () => {
+    const { data, packageJson } = await audit({ fix: true });
+    assert.deepEqual(data.applied, { qs: '~6.10.3' });
+    assert.ok(data.changeId);
+    assert.deepEqual(JSON.parse(packageJson).dependencies, { ...dependencies, qs: '~6.10.3' });
+  });
+});
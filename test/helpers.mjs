@@ -0,0 +1,95 @@
+// Shared fixtures: throwaway projects, a local registry standing in for Verdaccio, and an MCP
+// client talking to the built server (dist/index.js) over stdio
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+
+const SERVER = fileURLToPath(new URL('../dist/index.js', import.meta.url));
+
+// A temporary directory with the given files; objects are written as JSON
+export function tempProject(files = {}) {
+  const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'npm-helper-test-')));
+  for (const [name, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+    fs.writeFileSync(path.join(dir, name), typeof content === 'string' ? content : JSON.stringify(content, null, 2) + '\n');
+  }
+  return dir;
+}
+
+// A directory of executable shell scripts, for putting stand-ins for npm and friends on PATH
+export function stubCommands(scripts) {
+  const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'npm-helper-bin-')));
+  for (const [name, script] of Object.entries(scripts)) {
+    fs.writeFileSync(path.join(dir, name), `#!/bin/sh\n${script}\n`, { mode: 0o755 });
+  }
+  return dir;
+}
+
+// A packument with the given versions, published a day apart; latest defaults to the last one
+export function packument(name, versions, latest = versions[versions.length - 1]) {
+  const time = Object.fromEntries(versions.map((version, index) => [version, new Date(Date.UTC(2024, 0, 1 + index)).toISOString()]));
+  return {
+    name,
+    'dist-tags': { latest },
+    versions: Object.fromEntries(versions.map(version => [version, { name, version, dist: { tarball: `http://127.0.0.1:1/${name}/-/${version}.tgz` } }])),
+    time,
+  };
+}
+
+// Serves packuments by name, plus `routes` keyed by "METHOD /path" whose handlers get the parsed
+// JSON body. Every request is recorded with its headers.
+export async function startRegistry({ packuments = {}, routes = {} } = {}) {
+  const requests = [];
+  const server = http.createServer(async (req, res) => {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    const pathname = decodeURIComponent(new URL(req.url, 'http://localhost').pathname);
+    requests.push({ method: req.method, path: pathname, headers: req.headers, body });
+    const send = (status, json) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(json));
+    };
+    const route = routes[`${req.method} ${pathname}`];
+    if (route) return send(200, await route(body ? JSON.parse(body) : undefined));
+    const name = pathname.slice(1);
+    if (req.method === 'GET' && packuments[name]) return send(200, packuments[name]);
+    send(404, { error: 'Not found' });
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    url: `http://127.0.0.1:${server.address().port}/`,
+    host: `127.0.0.1:${server.address().port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+}
+
+// Start the server in a project directory, which becomes its allowed root. The developer's own
+// npm config stays out: npm_config_* variables (which `npm test` sets) are dropped and the user
+// .npmrc is <project>/.user-npmrc, so tests may write one.
+export async function connect(cwd, { args = [], env = {} } = {}) {
+  const cleanEnv = Object.fromEntries(Object.entries(process.env).filter(([key]) => !/^npm_config_/i.test(key)));
+  const snapshotDir = fs.mkdtempSync(path.join(os.tmpdir(), 'npm-helper-snapshots-'));
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [SERVER, '--no-cache', '--snapshot-dir', snapshotDir, '--log-level', 'error', ...args],
+    cwd,
+    env: { ...cleanEnv, NPM_CONFIG_USERCONFIG: path.join(cwd, '.user-npmrc'), ...env },
+    stderr: 'ignore',
+  });
+  const client = new Client({ name: 'npm-helper-mcp-tests', version: '1.0.0' });
+  await client.connect(transport);
+  return {
+    call: (name, toolArgs = {}) => client.callTool({ name, arguments: toolArgs }),
+    listResources: () => client.listResources(),
+    readResource: uri => client.readResource({ uri }),
+    close: async () => {
+      await client.close();
+      fs.rmSync(snapshotDir, { recursive: true, force: true });
+    },
+  };
+}
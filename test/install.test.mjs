@@ -0,0 +1,139 @@
+// Package manager detection and the rollback of installs that fail, with a stand-in npm on PATH
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { connect, packument, startRegistry, stubCommands, tempProject } from './helpers.mjs';
+
+// Run tools in one directory of a fresh project allowed everything under allowedRoot
+async function inProject(files, run, { project = '.', allowedRoot = '.', env } = {}) {
+  const dir = tempProject(files);
+  const server = await connect(path.join(dir, project), { args: ['--allowed-root', path.join(dir, allowedRoot)], env });
+  try {
+    return await run(server, dir);
+  } finally {
+    await server.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+describe('package manager detection', () => {
+  const detect = (files, options) => inProject(files, async (server, dir) => {
+    const result = await server.call('install_dependencies', { dryRun: true });
+    assert.ok(!result.isError, result.content[0].text);
+    const { packageManager, detectedFrom, version, directory } = result.structuredContent;
+    return [packageManager, detectedFrom, version, path.relative(dir, directory) || '.'];
+  }, options);
+
+  it('takes the packageManager field over a lockfile', async () => {
+    assert.deepEqual(
+      await detect({ 'package.json': { name: 'app', packageManager: 'pnpm@9.1.0+sha512.abc' }, 'package-lock.json': { lockfileVersion: 3 } }),
+      ['pnpm', 'packageManager', '9.1.0', '.'],
+    );
+  });
+
+  it('falls back to the lockfile', async () => {
+    assert.deepEqual(await detect({ 'package.json': { name: 'app' }, 'yarn.lock': '' }), ['yarn', 'lockfile', null, '.']);
+  });
+
+  it('walks up to the workspace root and installs there', async () => {
+    const files = {
+      'package.json': { name: 'mono', private: true, workspaces: ['packages/*'] },
+      'pnpm-lock.yaml': "lockfileVersion: '9.0'\n",
+      'packages/app/package.json': { name: 'app' },
+    };
+    assert.deepEqual(await detect(files, { project: 'packages/app' }), ['pnpm', 'lockfile', null, '.']);
+  });
+
+  it('uses the nearest level that names a package manager', async () => {
+    const files = {
+      'package.json': { name: 'mono', private: true, workspaces: ['packages/*'] },
+      'pnpm-lock.yaml': "lockfileVersion: '9.0'\n",
+      'packages/app/package.json': { name: 'app', packageManager: 'yarn@4.1.0' },
+    };
+    assert.deepEqual(await detect(files, { project: 'packages/app' }), ['yarn', 'packageManager', '4.1.0', 'packages/app']);
+  });
+
+  it('defaults to npm in the project', async () => {
+    assert.deepEqual(await detect({ 'package.json': { name: 'app' } }), ['npm', 'default', null, '.']);
+  });
+
+  it('stops the walk at the allowed root', async () => {
+    const files = { 'yarn.lock': '', 'package.json': { name: 'outside', packageManager: 'pnpm@9.1.0' }, 'root/app/package.json': { name: 'app' } };
+    assert.deepEqual(await detect(files, { project: 'root/app', allowedRoot: 'root' }), ['npm', 'default', null, 'root/app']);
+  });
+});
+
+describe('failed installs', () => {
+  let registry;
+  let bin;
+
+  before(async () => {
+    registry = await startRegistry({ packuments: { 'left-pad': packument('left-pad', ['1.0.0', '1.3.0']) } });
+    // an npm that leaves a half-written lockfile behind, logs that it ran and fails
+    bin = stubCommands({ npm: 'echo "{ broken" > package-lock.json\necho ran >> npm.log\necho "npm ERR! network" >&2\nexit 1' });
+  });
+
+  after(async () => {
+    await registry.close();
+    fs.rmSync(bin, { recursive: true, force: true });
+  });
+
+  const env = () => ({ PATH: `${bin}${path.delimiter}${process.env.PATH}` });
+  const lockfile = { name: 'app', version: '1.0.0', lockfileVersion: 3, packages: { '': { name: 'app', version: '1.0.0', dependencies: { 'left-pad': '1.0.0' } } } };
+  const project = () => ({
+    'package.json': { name: 'app', version: '1.0.0', dependencies: { 'left-pad': '1.0.0' } },
+    'package-lock.json': lockfile,
+    '.npmrc': `registry=${registry.url}\n`,
+  });
+  const read = (dir, file) => fs.readFileSync(path.join(dir, file), 'utf8');
+
+  it('puts the lockfile back and records no change when install_dependencies fails', () => inProject(project(), async (server, dir) => {
+    const before = read(dir, 'package-lock.json');
+    const result = await server.call('install_dependencies');
+    assert.ok(result.isError);
+    assert.match(result.content[0].text, /npm install failed with exit code 1:\nnpm ERR! network/);
+    assert.equal(read(dir, 'package-lock.json'), before);
+    assert.deepEqual((await server.call('list_changes')).structuredContent.changes, []);
+  }, { env: env() }));
+
+  it('puts package.json and the lockfile back when the install after an upgrade fails', () => inProject(project(), async (server, dir) => {
+    const before = { packageJson: read(dir, 'package.json'), lockfile: read(dir, 'package-lock.json') };
+    const result = await server.call('upgrade_packages', { install: true });
+    assert.ok(result.isError);
+    assert.match(result.content[0].text, /The install failed, so package\.json and the lockfile were restored/);
+    assert.equal(read(dir, 'npm.log'), 'ran\n');
+    assert.deepEqual({ packageJson: read(dir, 'package.json'), lockfile: read(dir, 'package-lock.json') }, before);
+    // the upgrade's snapshot is rolled back with it, so there is nothing to undo
+    assert.deepEqual((await server.call('list_changes')).structuredContent.changes, []);
+  }, { env: env() }));
+
+  describe('in a write-protected workspace root', () => {
+    // the member has a config of its own, which hides the root's policy from its package.json
+    const workspace = () => ({
+      'package.json': { name: 'mono', private: true, workspaces: ['packages/*'], npmHelper: { updates: { writeProtected: true } } },
+      'package-lock.json': lockfile,
+      '.npmrc': `registry=${registry.url}\n`,
+      'packages/app/package.json': { name: 'app', version: '1.0.0', dependencies: { 'left-pad': '1.0.0' } },
+      'packages/app/.npmhelperrc.json': {},
+      'packages/app/.npmrc': `registry=${registry.url}\n`,
+    });
+
+    it('refuses to install a member', () => inProject(workspace(), async (server, dir) => {
+      const result = await server.call('install_dependencies');
+      assert.ok(result.isError);
+      assert.match(result.content[0].text, /package-lock\.json is write-protected by .*package\.json \(updates\.writeProtected\)/);
+      assert.equal(fs.existsSync(path.join(dir, 'npm.log')), false);
+    }, { project: 'packages/app', env: env() }));
+
+    it('undoes a member upgrade instead of installing after it', () => inProject(workspace(), async (server, dir) => {
+      const before = read(dir, 'packages/app/package.json');
+      const result = await server.call('upgrade_packages', { install: true });
+      assert.ok(result.isError);
+      assert.match(result.content[0].text, /write-protected[\s\S]*Nothing was installed, so package\.json was restored/);
+      assert.equal(fs.existsSync(path.join(dir, 'npm.log')), false);
+      assert.equal(read(dir, 'packages/app/package.json'), before);
+      assert.deepEqual((await server.call('list_changes')).structuredContent.changes, []);
+    }, { project: 'packages/app', env: env() }));
+  });
+});
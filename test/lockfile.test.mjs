@@ -0,0 +1,341 @@
+// inspect_lockfile against fixture lockfiles in every format it reads
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import { describe, it } from 'node:test';
+import { connect, tempProject } from './helpers.mjs';
+
+// a is locked in range, b outside it and c not at all. a and b ask for d and e with different
+// ranges: one d satisfies both, no e does.
+const dependencies = { a: '^1.0.0', b: '^2.0.0', c: '^1.0.0' };
+const manifests = {
+  a: { version: '1.1.0', dependencies: { d: '^3.0.0', e: '^1.0.0' } },
+  b: { version: '1.5.0', dependencies: { d: '^3.1.0', e: '^2.0.0' } },
+};
+
+const packageLockV1 = {
+  name: 'fixture',
+  version: '1.0.0',
+  lockfileVersion: 1,
+  requires: true,
+  dependencies: {
+    a: { version: '1.1.0', requires: manifests.a.dependencies },
+    b: { version: '1.5.0', requires: manifests.b.dependencies, dependencies: { d: { version: '3.2.0' }, e: { version: '2.0.0' } } },
+    d: { version: '3.0.0' },
+    e: { version: '1.0.0' },
+  },
+};
+
+const packageLock = lockfileVersion => ({
+  name: 'fixture',
+  version: '1.0.0',
+  lockfileVersion,
+  requires: true,
+  packages: {
+    '': { name: 'fixture', version: '1.0.0', dependencies },
+    'node_modules/a': manifests.a,
+    'node_modules/b': manifests.b,
+    'node_modules/b/node_modules/d': { version: '3.2.0' },
+    'node_modules/b/node_modules/e': { version: '2.0.0' },
+    'node_modules/d': { version: '3.0.0' },
+    'node_modules/e': { version: '1.0.0' },
+  },
+  // v2 keeps the v1 tree for older npm; the flat map wins
+  ...(lockfileVersion === 2 ? { dependencies: packageLockV1.dependencies } : {}),
+});
+
+const pnpmLockV5 = `lockfileVersion: 5.4
+
+specifiers:
+  a: ^1.0.0
+  b: ^2.0.0
+  c: ^1.0.0
+
+dependencies:
+  a: 1.1.0
+  b: 1.5.0
+
+packages:
+
+  /a/1.1.0:
+    resolution: {integrity: sha512-a}
+    dependencies:
+      d: 3.0.0
+      e: 1.0.0
+    dev: false
+
+  /b/1.5.0:
+    resolution: {integrity: sha512-b}
+    dependencies:
+      d: 3.2.0
+      e: 2.0.0
+    dev: false
+
+  /d/3.0.0:
+    resolution: {integrity: sha512-d3}
+    dev: false
+
+  /d/3.2.0:
+    resolution: {integrity: sha512-d32}
+    dev: false
+
+  /e/1.0.0:
+    resolution: {integrity: sha512-e1}
+    dev: false
+
+  /e/2.0.0:
+    resolution: {integrity: sha512-e2}
+    dev: false
+`;
+
+const pnpmLockV6 = `lockfileVersion: '6.0'
+
+dependencies:
+  a:
+    specifier: ^1.0.0
+    version: 1.1.0
+  b:
+    specifier: ^2.0.0
+    version: 1.5.0
+
+packages:
+
+  /a@1.1.0:
+    resolution: {integrity: sha512-a}
+    dependencies:
+      d: 3.0.0
+      e: 1.0.0
+    dev: false
+
+  /b@1.5.0:
+    resolution: {integrity: sha512-b}
+    dependencies:
+      d: 3.2.0
+      e: 2.0.0
+    dev: false
+
+  /d@3.0.0:
+    resolution: {integrity: sha512-d3}
+    dev: false
+
+  /d@3.2.0:
+    resolution: {integrity: sha512-d32}
+    dev: false
+
+  /e@1.0.0:
+    resolution: {integrity: sha512-e1}
+    dev: false
+
+  /e@2.0.0:
+    resolution: {integrity: sha512-e2}
+    dev: false
+`;
+
+const pnpmLockV9 = `lockfileVersion: '9.0'
+
+importers:
+
+  .:
+    dependencies:
+      a:
+        specifier: ^1.0.0
+        version: 1.1.0
+      b:
+        specifier: ^2.0.0
+        version: 1.5.0
+
+packages:
+
+  a@1.1.0:
+    resolution: {integrity: sha512-a}
+
+  b@1.5.0:
+    resolution: {integrity: sha512-b}
+
+  d@3.0.0:
+    resolution: {integrity: sha512-d3}
+
+  d@3.2.0:
+    resolution: {integrity: sha512-d32}
+
+  e@1.0.0:
+    resolution: {integrity: sha512-e1}
+
+  e@2.0.0:
+    resolution: {integrity: sha512-e2}
+
+snapshots:
+
+  a@1.1.0:
+    dependencies:
+      d: 3.0.0
+      e: 1.0.0
+
+  b@1.5.0:
+    dependencies:
+      d: 3.2.0
+      e: 2.0.0
+
+  d@3.0.0: {}
+
+  d@3.2.0: {}
+
+  e@1.0.0: {}
+
+  e@2.0.0: {}
+`;
+
+// The manifests pnpm installs into its virtual store, where the dependency ranges live; a is
+// installed with a peer suffix
+const pnpmStore = {
+  'node_modules/.pnpm/a@1.1.0_react@18.2.0/node_modules/a/package.json': { name: 'a', ...manifests.a },
+  'node_modules/.pnpm/b@1.5.0/node_modules/b/package.json': { name: 'b', ...manifests.b },
+};
+
+// Without deduplication yarn keeps one entry per range; the lockfile predates b's move to ^2.0.0
+const yarnClassic = `# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.
+# yarn lockfile v1
+
+
+a@^1.0.0:
+  version "1.1.0"
+  resolved "https://registry.yarnpkg.com/a/-/a-1.1.0.tgz#a"
+  dependencies:
+    d "^3.0.0"
+    e "^1.0.0"
+
+b@^2.0.0:
+  version "1.5.0"
+  resolved "https://registry.yarnpkg.com/b/-/b-1.5.0.tgz#b"
+  dependencies:
+    d "^3.1.0"
+    e "^2.0.0"
+
+d@^3.0.0:
+  version "3.0.0"
+
+d@^3.1.0:
+  version "3.2.0"
+
+e@^1.0.0:
+  version "1.0.0"
+
+e@^2.0.0:
+  version "2.0.0"
+`;
+
+const yarnBerry = `# This file is generated by running "yarn install" inside your project.
+
+__metadata:
+  version: 6
+  cacheKey: 8
+
+"a@npm:^1.0.0":
+  version: 1.1.0
+  resolution: "a@npm:1.1.0"
+  dependencies:
+    d: ^3.0.0
+    e: ^1.0.0
+  languageName: node
+  linkType: hard
+
+"b@npm:^2.0.0":
+  version: 1.5.0
+  resolution: "b@npm:1.5.0"
+  dependencies:
+    d: ^3.1.0
+    e: ^2.0.0
+  languageName: node
+  linkType: hard
+
+"d@npm:^3.0.0":
+  version: 3.0.0
+  resolution: "d@npm:3.0.0"
+  languageName: node
+  linkType: hard
+
+"d@npm:^3.1.0":
+  version: 3.2.0
+  resolution: "d@npm:3.2.0"
+  languageName: node
+  linkType: hard
+
+"e@npm:^1.0.0":
+  version: 1.0.0
+  resolution: "e@npm:1.0.0"
+  languageName: node
+  linkType: hard
+
+"e@npm:^2.0.0":
+  version: 2.0.0
+  resolution: "e@npm:2.0.0"
+  languageName: node
+  linkType: hard
+
+"fixture@workspace:.":
+  version: 0.0.0-use.local
+  resolution: "fixture@workspace:."
+  dependencies:
+    a: ^1.0.0
+    b: ^2.0.0
+    c: ^1.0.0
+  languageName: unknown
+  linkType: soft
+`;
+
+const formats = [
+  { label: 'npm v1', type: 'npm', lockfileVersion: '1', files: { 'package-lock.json': packageLockV1 } },
+  { label: 'npm v2', type: 'npm', lockfileVersion: '2', files: { 'package-lock.json': packageLock(2) } },
+  { label: 'npm v3', type: 'npm', lockfileVersion: '3', files: { 'package-lock.json': packageLock(3) } },
+  { label: 'pnpm v5', type: 'pnpm', lockfileVersion: '5.4', files: { 'pnpm-lock.yaml': pnpmLockV5, ...pnpmStore } },
+  { label: 'pnpm v6', type: 'pnpm', lockfileVersion: '6.0', files: { 'pnpm-lock.yaml': pnpmLockV6, ...pnpmStore } },
+  { label: 'pnpm v9', type: 'pnpm', lockfileVersion: '9.0', files: { 'pnpm-lock.yaml': pnpmLockV9, ...pnpmStore } },
+  { label: 'yarn classic', type: 'yarn', lockfileVersion: '1', files: { 'yarn.lock': yarnClassic } },
+  { label: 'yarn berry', type: 'yarn', lockfileVersion: '6', files: { 'yarn.lock': yarnBerry } },
+];
+
+// Inspect a fresh project with package.json and the given files
+async function inspect(files) {
+  const dir = tempProject({ 'package.json': { name: 'fixture', version: '1.0.0', dependencies }, ...files });
+  const server = await connect(dir);
+  try {
+    const result = await server.call('inspect_lockfile');
+    assert.ok(!result.isError, result.content[0].text);
+    return result.structuredContent;
+  } finally {
+    await server.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+describe('inspect_lockfile', () => {
+  for (const format of formats) {
+    it(`reads locked versions, drift and duplicates from ${format.label}`, async () => {
+      const data = await inspect(format.files);
+      assert.equal(data.lockfile.type, format.type);
+      assert.equal(data.lockfile.lockfileVersion, format.lockfileVersion);
+      assert.deepEqual(data.direct.map(({ name, locked, status }) => [name, locked, status]), [
+        ['a', '1.1.0', 'ok'],
+        ['b', '1.5.0', 'outOfRange'],
+        ['c', null, 'missing'],
+      ]);
+      assert.deepEqual(data.duplicates, [
+        { name: 'd', versions: ['3.2.0', '3.0.0'], copies: 2, requestedRanges: ['^3.0.0', '^3.1.0'], dedupable: true, dedupeTo: '3.2.0' },
+        { name: 'e', versions: ['2.0.0', '1.0.0'], copies: 2, requestedRanges: ['^1.0.0', '^2.0.0'], dedupable: false },
+      ]);
+      assert.deepEqual(data.counts, { total: 6, direct: 2, transitive: 4 });
+      assert.equal(data.recommendations.reinstall, true);
+      assert.equal(data.recommendations.dedupe, true);
+    });
+  }
+
+  it('gives no dedupe verdict for pnpm packages that are not installed', async () => {
+    const data = await inspect({ 'pnpm-lock.yaml': pnpmLockV9 });
+    assert.deepEqual(data.duplicates, [
+      { name: 'd', versions: ['3.2.0', '3.0.0'], copies: 2, requestedRanges: [] },
+      { name: 'e', versions: ['2.0.0', '1.0.0'], copies: 2, requestedRanges: [] },
+    ]);
+    assert.equal(data.recommendations.dedupe, false);
+    // the importer's specifiers still show the drift
+    assert.deepEqual(data.direct.map(({ name, status }) => [name, status]), [['a', 'ok'], ['b', 'outOfRange'], ['c', 'missing']]);
+  });
+});
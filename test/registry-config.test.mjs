@@ -0,0 +1,109 @@
+// Registry and credential selection from .npmrc files, checked against local registries
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { connect, packument, startRegistry, tempProject } from './helpers.mjs';
+
+const basic = credentials => `Basic ${Buffer.from(credentials).toString('base64')}`;
+
+describe('registry configuration', () => {
+  let publicRegistry;
+  let privateRegistry;
+
+  before(async () => {
+    const packuments = {
+      'left-pad': packument('left-pad', ['1.0.0', '1.3.0']),
+      '@acme/widget': packument('@acme/widget', ['2.0.0']),
+    };
+    publicRegistry = await startRegistry({ packuments });
+    privateRegistry = await startRegistry({ packuments });
+  });
+
+  after(async () => {
+    await publicRegistry.close();
+    await privateRegistry.close();
+  });
+
+  // Look up both packages from a project with this .npmrc and return the requests each registry saw
+  async function lookUp(npmrc, { userNpmrc, env } = {}) {
+    const dir = tempProject({ 'package.json': { name: 'fixture', version: '1.0.0' }, '.npmrc': npmrc });
+    if (userNpmrc) fs.writeFileSync(path.join(dir, '.user-npmrc'), userNpmrc);
+    publicRegistry.requests.length = 0;
+    privateRegistry.requests.length = 0;
+    const server = await connect(dir, { env });
+    try {
+      for (const packageName of ['left-pad', '@acme/widget']) {
+        const result = await server.call('get_package_versions', { packageName });
+        assert.ok(!result.isError, result.content[0].text);
+      }
+    } finally {
+      await server.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+    const find = (registry, name) => registry.requests.find(request => request.path === `/${name}`);
+    return {
+      publicPad: find(publicRegistry, 'left-pad'),
+      publicWidget: find(publicRegistry, '@acme/widget'),
+      privateWidget: find(privateRegistry, '@acme/widget'),
+    };
+  }
+
+  it('sends scoped packages to their @scope:registry and the rest to the default registry', async () => {
+    const seen = await lookUp(`registry=${publicRegistry.url}\n@acme:registry=${privateRegistry.url}\n`);
+    assert.ok(seen.publicPad);
+    assert.ok(seen.privateWidget);
+    assert.equal(seen.publicWidget, undefined);
+  });
+
+  it('sends an _authToken only to the registry it is configured for', async () => {
+    const seen = await lookUp([
+      `registry=${publicRegistry.url}`,
+      `@acme:registry=${privateRegistry.url}`,
+      `//${privateRegistry.host}/:_authToken=private-token`,
+    ].join('\n'));
+    assert.equal(seen.privateWidget.headers.authorization, 'Bearer private-token');
+    assert.equal(seen.publicPad.headers.authorization, undefined);
+  });
+
+  it('builds basic auth from username and base64 _password', async () => {
+    const seen = await lookUp([
+      `registry=${publicRegistry.url}`,
+      `@acme:registry=${privateRegistry.url}`,
+      `//${privateRegistry.host}/:username=alice`,
+      `//${privateRegistry.host}/:_password=${Buffer.from('s3cret').toString('base64')}`,
+    ].join('\n'));
+    assert.equal(seen.privateWidget.headers.authorization, basic('alice:s3cret'));
+    assert.equal(seen.publicPad.headers.authorization, undefined);
+  });
+
+  it('passes _auth through as basic auth', async () => {
+    const auth = Buffer.from('bob:hunter2').toString('base64');
+    const seen = await lookUp(`registry=${publicRegistry.url}\n@acme:registry=${privateRegistry.url}\n//${privateRegistry.host}/:_auth=${auth}\n`);
+    assert.equal(seen.privateWidget.headers.authorization, `Basic ${auth}`);
+  });
+
+  it('applies credentials without a registry prefix to the default registry only', async () => {
+    const seen = await lookUp(`registry=${publicRegistry.url}\n@acme:registry=${privateRegistry.url}\n_authToken=default-token\n`);
+    assert.equal(seen.publicPad.headers.authorization, 'Bearer default-token');
+    assert.equal(seen.privateWidget.headers.authorization, undefined);
+  });
+
+  it('expands ${VAR} references from the environment', async () => {
+    const seen = await lookUp(
+      `registry=${publicRegistry.url}\n@acme:registry=${privateRegistry.url}\n//${privateRegistry.host}/:_authToken=\${ACME_TOKEN}\n`,
+      { env: { ACME_TOKEN: 'from-env' } },
+    );
+    assert.equal(seen.privateWidget.headers.authorization, 'Bearer from-env');
+  });
+
+  it('lets the project .npmrc override the user .npmrc, keeping the user credentials', async () => {
+    const seen = await lookUp(`@acme:registry=${privateRegistry.url}\n`, {
+      userNpmrc: `registry=${privateRegistry.url}\n@acme:registry=${publicRegistry.url}\n//${privateRegistry.host}/:_authToken=user-token\n`,
+    });
+    assert.equal(seen.publicWidget, undefined);
+    assert.equal(seen.privateWidget.headers.authorization, 'Bearer user-token');
+    // the user .npmrc's default registry still applies to unscoped packages
+    assert.equal(seen.publicPad, undefined);
+  });
+});
@@ -0,0 +1,136 @@
+// Allowed roots: paths, symlinks, workspace members, project resources, the change journal and
+// doctor commands outside them are refused
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { connect, packument, startRegistry, stubCommands, tempProject } from './helpers.mjs';
+
+const outsideRoots = { code: ErrorCode.InvalidParams, message: /outside the allowed roots/ };
+
+describe('allowed roots', () => {
+  let registry;
+  let dir; // holds root/, the only allowed root, and outside/ next to it
+  let root;
+
+  before(async () => {
+    registry = await startRegistry({ packuments: { 'left-pad': packument('left-pad', ['1.0.0', '1.3.0']) } });
+    const npmrc = `registry=${registry.url}\n`;
+    const project = { name: 'project', version: '1.0.0', dependencies: { 'left-pad': '1.0.0' }, scripts: { test: 'true' } };
+    dir = tempProject({
+      'root/project/package.json': project,
+      'root/project/.npmrc': npmrc,
+      'root/mono/package.json': { name: 'mono', private: true, workspaces: ['../../outside'] },
+      'root/a/package.json': { name: 'a', version: '1.0.0' },
+      'root/a/package-lock.json': { name: 'a', lockfileVersion: 3, packages: {} },
+      'root/b/package.json': { name: 'b', version: '1.0.0' },
+      'root/b/package-lock.json': { name: 'b', lockfileVersion: 3, packages: {} },
+      'outside/package.json': { name: 'outside', version: '1.0.0', dependencies: { 'left-pad': '1.0.0' } },
+      'outside/package-lock.json': { name: 'outside', lockfileVersion: 3, packages: {} },
+      'outside/.npmrc': npmrc,
+    });
+    root = path.join(dir, 'root');
+    fs.symlinkSync(path.join(dir, 'outside'), path.join(root, 'escape'));
+  });
+
+  after(async () => {
+    await registry.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // A server in root/project (or cwd) allowed only root/
+  async function withServer(run, { cwd = path.join(root, 'project'), args = [], env } = {}) {
+    const server = await connect(cwd, { args: ['--allowed-root', root, ...args], env });
+    try {
+      return await run(server);
+    } finally {
+      await server.close();
+    }
+  }
+
+  it('refuses a packagePath outside the allowed roots', () => withServer(async server => {
+    await assert.rejects(server.call('inspect_lockfile', { packagePath: path.join(dir, 'outside', 'package.json') }), outsideRoots);
+  }));
+
+  it('refuses a packagePath that climbs out with ..', () => withServer(async server => {
+    await assert.rejects(server.call('inspect_lockfile', { packagePath: '../../outside/package.json' }), outsideRoots);
+    await assert.rejects(server.call('check_updates', { packagePath: path.join(root, 'project', '..', '..', 'outside', 'package.json') }), outsideRoots);
+  }));
+
+  it('refuses a packagePath through a symlink that leads out', () => withServer(async server => {
+    await assert.rejects(server.call('inspect_lockfile', { packagePath: path.join(root, 'escape', 'package.json') }), outsideRoots);
+    await assert.rejects(server.call('list_changes', { packagePath: path.join(root, 'escape') }), outsideRoots);
+  }));
+
+  it('accepts a packagePath inside the allowed roots', () => withServer(async server => {
+    const result = await server.call('check_updates', { packagePath: path.join(root, 'project', 'package.json') });
+    assert.ok(!result.isError, result.content[0].text);
+    assert.deepEqual(result.structuredContent.upgrades, { 'left-pad': '1.3.0' });
+  }));
+
+  it('refuses workspace members outside the allowed roots', () => withServer(async server => {
+    await assert.rejects(server.call('check_updates', { packagePath: path.join(root, 'mono', 'package.json'), workspaces: true }),
+      { code: ErrorCode.InvalidParams, message: /Workspace member .* is outside the allowed roots/ });
+  }));
+
+  it('offers no project resources when started outside the allowed roots', () => withServer(async server => {
+    assert.deepEqual((await server.listResources()).resources, []);
+    await assert.rejects(server.readResource('project://package.json'), outsideRoots);
+    await assert.rejects(server.readResource('project://outdated'), outsideRoots);
+  }, { cwd: path.join(dir, 'outside') }));
+
+  it('lists and undoes only the changes of the project directory given', async () => {
+    // an npm that rewrites the lockfile, so each install records a change
+    const bin = stubCommands({ npm: `echo '{"lockfileVersion": 3, "packages": {"node_modules/x": {"version": "1.0.0"}}}' > package-lock.json` });
+    const original = fs.readFileSync(path.join(root, 'a', 'package-lock.json'), 'utf8');
+    try {
+      await withServer(async server => {
+        for (const project of ['a', 'b']) {
+          const result = await server.call('install_dependencies', { packagePath: path.join(root, project) });
+          assert.ok(!result.isError, result.content[0].text);
+        }
+        const listed = await server.call('list_changes', { packagePath: path.join(root, 'a') });
+        assert.deepEqual(listed.structuredContent.changes.map(change => change.projectDir), [path.join(root, 'a')]);
+
+        const undone = await server.call('undo_last_change', { packagePath: path.join(root, 'a') });
+        assert.ok(!undone.isError, undone.content[0].text);
+        assert.equal(fs.readFileSync(path.join(root, 'a', 'package-lock.json'), 'utf8'), original);
+        assert.notEqual(fs.readFileSync(path.join(root, 'b', 'package-lock.json'), 'utf8'), original);
+      }, { env: { PATH: `${bin}${path.delimiter}${process.env.PATH}` } });
+    } finally {
+      fs.rmSync(bin, { recursive: true, force: true });
+    }
+  });
+
+  describe('doctor commands', () => {
+    let bin;
+    let log;
+
+    before(() => {
+      log = path.join(dir, 'npm.log');
+      bin = stubCommands({ npm: `echo "$@" >> ${JSON.stringify(log)}` });
+    });
+
+    after(() => fs.rmSync(bin, { recursive: true, force: true }));
+
+    const run = args => withServer(server => server.call('run_doctor', { doctorTest: 'npm run check' }), {
+      args,
+      env: { PATH: `${bin}${path.delimiter}${process.env.PATH}` },
+    });
+
+    it('refuses a doctor command that is not allowed and cannot be confirmed', async () => {
+      fs.rmSync(log, { force: true });
+      await assert.rejects(run([]), { code: ErrorCode.InvalidParams, message: /"npm run check" is not an allowed doctor command/ });
+      assert.equal(fs.existsSync(log), false);
+    });
+
+    it('runs a doctor command allowed with --doctor-command', async () => {
+      fs.rmSync(log, { force: true });
+      const result = await run(['--doctor-command', 'npm run check']);
+      assert.ok(!result.isError, result.content[0].text);
+      assert.deepEqual(result.structuredContent.upgrades, { 'left-pad': true });
+      assert.match(fs.readFileSync(log, 'utf8'), /^run check$/m);
+    });
+  });
+});